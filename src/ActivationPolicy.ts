@@ -0,0 +1,99 @@
+export type ActivationMode = 'always' | 'wake-word' | 'push-to-talk';
+
+export interface ActivationConfig {
+  mode: ActivationMode;
+  wakePhrases: string[]; // e.g. "hey assistant"; matched case-insensitively on word boundaries
+  respondToName: boolean; // treat the bot's own name as a wake phrase
+  followUpWindowMs: number; // after the bot has spoken to a user, they can continue without a wake phrase
+}
+
+export type ActivationReason = 'always' | 'push-to-talk' | 'wake-phrase' | 'name' | 'follow-up' | 'not-addressed';
+
+export interface ActivationDecision {
+  respond: boolean;
+  reason: ActivationReason;
+}
+
+/**
+ * Decides whether a transcribed utterance should get a spoken reply. Sits between
+ * the speech aggregator and the chat step so busy channels don't get a reply to
+ * every sentence that crosses the energy threshold.
+ */
+export class ActivationPolicy {
+  private talkToBot: Set<string> = new Set();
+  private lastSpokenTo: Map<string, number> = new Map();
+  private botNames: string[] = [];
+
+  constructor(private config: ActivationConfig) {}
+
+  // Push-to-talk toggles and open follow-up windows carry over
+  setConfig(config: ActivationConfig) {
+    this.config = config;
+  }
+
+  setBotNames(names: string[]) {
+    this.botNames = names.map(normalize).filter(Boolean);
+  }
+
+  // Push-to-talk toggle, set by command on behalf of a user
+  setTalkToBot(userId: string, enabled: boolean) {
+    if (enabled) {
+      this.talkToBot.add(userId);
+    } else {
+      this.talkToBot.delete(userId);
+    }
+  }
+
+  isTalkingToBot(userId: string): boolean {
+    return this.talkToBot.has(userId);
+  }
+
+  // Called when the bot finishes speaking a reply to `userId`; opens the follow-up window
+  recordReply(userId: string, at: number = Date.now()) {
+    this.lastSpokenTo.set(userId, at);
+  }
+
+  evaluate(userId: string, transcript: string, now: number = Date.now()): ActivationDecision {
+    if (this.config.mode === 'always') {
+      return { respond: true, reason: 'always' };
+    }
+
+    if (this.config.mode === 'push-to-talk') {
+      if (this.talkToBot.has(userId)) return { respond: true, reason: 'push-to-talk' };
+    } else {
+      const text = ` ${normalize(transcript)} `;
+      if (this.config.wakePhrases.some((phrase) => containsPhrase(text, phrase))) {
+        return { respond: true, reason: 'wake-phrase' };
+      }
+      if (this.config.respondToName && this.botNames.some((name) => containsPhrase(text, name))) {
+        return { respond: true, reason: 'name' };
+      }
+    }
+
+    const lastSpokenTo = this.lastSpokenTo.get(userId);
+    if (lastSpokenTo !== undefined && now - lastSpokenTo <= this.config.followUpWindowMs) {
+      return { respond: true, reason: 'follow-up' };
+    }
+
+    return { respond: false, reason: 'not-addressed' };
+  }
+
+  clear() {
+    this.talkToBot.clear();
+    this.lastSpokenTo.clear();
+  }
+}
+
+function containsPhrase(paddedText: string, phrase: string): boolean {
+  const normalized = normalize(phrase);
+  return normalized.length > 0 && paddedText.includes(` ${normalized} `);
+}
+
+// Lowercase, drop punctuation and collapse whitespace so "Hey, Assistant!" matches "hey assistant"
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
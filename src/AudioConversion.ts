@@ -0,0 +1,265 @@
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import { Readable } from 'stream';
+
+export interface PcmAudio {
+  samples: Float32Array[]; // one array per channel, -1..1
+  sampleRate: number;
+}
+
+// Windowed-sinc kernel: zero crossings on each side of the centre tap at the output
+// bandwidth, and how finely the fractional sample position is quantized
+const SINC_ZERO_CROSSINGS = 16;
+const PHASES = 256;
+
+const kernelCache: Map<string, { halfWidth: number; kernels: Float32Array[] }> = new Map();
+
+// 48k stereo s16le (what Discord gives us) to a 16k mono WAV for ASR, without leaving the process
+export function pcm48kStereoToWav16kMono(pcm48kStereo: Buffer): Buffer {
+  const [left, right] = decodeS16le(pcm48kStereo, 2);
+  const mono = new Float32Array(left.length);
+  for (let i = 0; i < mono.length; i++) {
+    mono[i] = (left[i] + right[i]) / 2;
+  }
+  return encodeWav({ samples: [resample(mono, 48000, 16000)], sampleRate: 16000 });
+}
+
+// Any PCM to the 48k stereo s16le the audio player expects; mono is copied to both channels
+export function toPcm48kStereo(audio: PcmAudio): Buffer {
+  const channels = audio.samples.map((samples) => resample(samples, audio.sampleRate, 48000));
+  const left = channels[0] ?? new Float32Array(0);
+  const right = channels[1] ?? left;
+  return encodeS16le([left, right]);
+}
+
+/**
+ * Band-limited resampling with a windowed-sinc kernel. Kernels are precomputed per
+ * rate pair and fractional position, so converting a turn costs a few multiply-adds
+ * per output sample.
+ */
+export function resample(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return input.slice();
+
+  const ratio = toRate / fromRate;
+  const { halfWidth, kernels } = kernelsFor(fromRate, toRate);
+  const output = new Float32Array(Math.floor(input.length * ratio));
+
+  for (let i = 0; i < output.length; i++) {
+    const center = i / ratio;
+    const base = Math.floor(center);
+    const kernel = kernels[Math.round((center - base) * PHASES)];
+    let sum = 0;
+    for (let k = 0; k < kernel.length; k++) {
+      const j = base - halfWidth + 1 + k;
+      if (j >= 0 && j < input.length) sum += input[j] * kernel[k];
+    }
+    output[i] = sum;
+  }
+  return output;
+}
+
+function kernelsFor(fromRate: number, toRate: number) {
+  const key = `${fromRate}:${toRate}`;
+  const cached = kernelCache.get(key);
+  if (cached) return cached;
+
+  // Cutoff relative to the input Nyquist; downsampling must also filter out what the output can't hold
+  const cutoff = Math.min(1, toRate / fromRate) * 0.95;
+  const halfWidth = Math.ceil(SINC_ZERO_CROSSINGS / cutoff);
+  const kernels: Float32Array[] = [];
+  for (let phase = 0; phase <= PHASES; phase++) {
+    const frac = phase / PHASES;
+    const kernel = new Float32Array(halfWidth * 2);
+    for (let k = 0; k < kernel.length; k++) {
+      const x = k - halfWidth + 1 - frac;
+      const window = 0.5 + 0.5 * Math.cos(Math.PI * x / halfWidth);
+      kernel[k] = Math.abs(x) >= halfWidth ? 0 : cutoff * sinc(cutoff * x) * window;
+    }
+    kernels.push(kernel);
+  }
+
+  const entry = { halfWidth, kernels };
+  kernelCache.set(key, entry);
+  return entry;
+}
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  return Math.sin(Math.PI * x) / (Math.PI * x);
+}
+
+export function decodeS16le(pcm: Buffer, channels: number): Float32Array[] {
+  const frames = Math.floor(pcm.length / (2 * channels));
+  const output = Array.from({ length: channels }, () => new Float32Array(frames));
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels; c++) {
+      output[c][i] = pcm.readInt16LE((i * channels + c) * 2) / 32768;
+    }
+  }
+  return output;
+}
+
+export function encodeS16le(channels: Float32Array[]): Buffer {
+  const frames = Math.min(...channels.map((samples) => samples.length));
+  const pcm = Buffer.alloc(frames * channels.length * 2);
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels.length; c++) {
+      const value = Math.round(channels[c][i] * 32768);
+      pcm.writeInt16LE(Math.max(-32768, Math.min(32767, value)), (i * channels.length + c) * 2);
+    }
+  }
+  return pcm;
+}
+
+export function encodeWav(audio: PcmAudio): Buffer {
+  const data = encodeS16le(audio.samples);
+  const channels = audio.samples.length;
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(audio.sampleRate, 24);
+  header.writeUInt32LE(audio.sampleRate * channels * 2, 28);
+  header.writeUInt16LE(channels * 2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+// Parses 16-bit PCM WAV; returns null for anything else (compressed, float, not a WAV)
+export function parseWav(wav: Buffer): PcmAudio | null {
+  if (wav.length < 12 || wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+
+  let format: { channels: number; sampleRate: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const id = wav.toString('ascii', offset, offset + 4);
+    const size = wav.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      const audioFormat = wav.readUInt16LE(body);
+      const bitsPerSample = wav.readUInt16LE(body + 14);
+      // WAVE_FORMAT_EXTENSIBLE is plain PCM too as far as 16-bit audio goes
+      if ((audioFormat !== 1 && audioFormat !== 0xFFFE) || bitsPerSample !== 16) return null;
+      format = { channels: wav.readUInt16LE(body + 2), sampleRate: wav.readUInt32LE(body + 4) };
+    } else if (id === 'data') {
+      if (!format || format.channels < 1) return null;
+      // Streamed WAVs (e.g. from TTS APIs) often carry a placeholder size; trust the buffer instead
+      const data = wav.subarray(body, Math.min(wav.length, body + size));
+      return { samples: decodeS16le(data, format.channels), sampleRate: format.sampleRate };
+    }
+
+    offset = body + size + (size % 2);
+  }
+  return null;
+}
+
+/**
+ * Decodes compressed audio (mp3, ogg, ...) to 48k stereo s16le with ffmpeg. Lives as
+ * long as the provider and keeps a few processes started ahead of time, so neither a
+ * reply nor the sentences of a streamed reply decoding side by side wait for ffmpeg
+ * to start; each process still handles one input, as ffmpeg can't mark where one
+ * decoded file ends and the next begins on a shared pipe. Call `close()` on
+ * shutdown so the spares don't keep the host process alive.
+ */
+export class PrewarmedDecoder {
+  private spares: ChildProcessWithoutNullStreams[] = [];
+  private closed = false;
+
+  // A sentence of speech decodes in well under a second; `timeoutMs` only catches a hung ffmpeg
+  constructor(private timeoutMs: number = 10000, private poolSize: number = 2) {}
+
+  async decode(input: Buffer): Promise<Buffer> {
+    if (this.closed) throw new Error('Audio decoder is closed');
+
+    // Spares that died (or never started) are dropped rather than handed an input they can't take
+    this.spares = this.spares.filter((spare) => spare.pid !== undefined && spare.exitCode === null);
+    const ffmpeg = this.spares.shift() ?? this.spawnProcess();
+    // Hardening: ffmpeg's startup cost is paid before the next decode needs it
+    while (this.spares.length < this.poolSize) this.spares.push(this.spawnProcess());
+
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+
+      // Hardening: Timeout for FFmpeg to prevent hanging
+      const timeout = setTimeout(() => {
+        ffmpeg.kill('SIGTERM');
+        reject(new Error('FFmpeg timed out'));
+      }, this.timeoutMs);
+
+      ffmpeg.stdout.on('data', (data) => chunks.push(data));
+
+      ffmpeg.on('error', (err) => {
+        clearTimeout(timeout);
+        reject(err);
+      });
+
+      ffmpeg.on('close', (code) => {
+        clearTimeout(timeout);
+        if (code === 0) {
+          resolve(Buffer.concat(chunks));
+        } else {
+          // Hardening: Don't expose FFmpeg stderr to users
+          reject(new Error(`Audio processing failed`));
+        }
+      });
+
+      ffmpeg.stdin.on('error', () => undefined); // surfaces as a non-zero exit instead
+      ffmpeg.stdin.end(input);
+    });
+  }
+
+  close() {
+    this.closed = true;
+    for (const spare of this.spares) spare.kill('SIGTERM');
+    this.spares = [];
+  }
+
+  private spawnProcess(): ChildProcessWithoutNullStreams {
+    const ffmpeg = spawn('ffmpeg', ['-i', 'pipe:0', '-f', 's16le', '-ar', '48000', '-ac', '2', 'pipe:1'], {
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    ffmpeg.stderr.resume(); // never read, but must not fill up and block ffmpeg
+    // A spare that failed to start (e.g. ffmpeg missing) must not crash the process; decode reports it
+    ffmpeg.on('error', () => undefined);
+    return ffmpeg;
+  }
+}
+
+/**
+ * Decodes anything ffmpeg can read (a file path or URL, or a stream of encoded audio)
+ * to 48k stereo s16le as it plays, for audio too long to hold in memory. Destroying
+ * the returned stream stops ffmpeg; a failed decode destroys it with an error.
+ */
+export function decodeAudioStream(input: string | Readable): Readable {
+  const ffmpeg = spawn('ffmpeg', ['-hide_banner', '-loglevel', 'error', '-i', typeof input === 'string' ? input : 'pipe:0', '-f', 's16le', '-ar', '48000', '-ac', '2', 'pipe:1'], {
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+  ffmpeg.stderr.resume();
+  ffmpeg.stdin.on('error', () => undefined); // ffmpeg may stop reading early; surfaces as its exit code
+  if (typeof input === 'string') {
+    ffmpeg.stdin.end();
+  } else {
+    input.on('error', () => ffmpeg.stdin.destroy());
+    input.pipe(ffmpeg.stdin);
+  }
+
+  const output = ffmpeg.stdout;
+  ffmpeg.on('error', (error) => output.destroy(error));
+  ffmpeg.on('close', (code) => {
+    // Hardening: Don't expose FFmpeg stderr to users
+    if (code !== 0 && code !== null && !output.destroyed) output.destroy(new Error('Audio processing failed'));
+  });
+  output.once('close', () => {
+    if (ffmpeg.exitCode === null) ffmpeg.kill('SIGTERM');
+    if (typeof input !== 'string') input.destroy();
+  });
+  return output;
+}
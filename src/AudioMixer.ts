@@ -0,0 +1,267 @@
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+
+// 20 ms of 48k stereo s16le, the frame Discord plays
+export const MIX_FRAME_BYTES = 3840;
+const FRAME_SAMPLES = MIX_FRAME_BYTES / 2;
+const FRAME_MS = 20;
+const EMPTY = Buffer.alloc(0);
+
+export interface MixerOptions {
+  duckVolume: number; // background gain (0-1) while ducking foreground audio plays
+  duckFadeMs: number; // how long the background takes to fade down or back up
+}
+
+export interface ForegroundOptions {
+  volume?: number;
+  duck?: boolean; // lower the background while this plays
+}
+
+export interface TrackOptions {
+  volume?: number;
+  loop?: boolean; // reopen the source each time it ends
+}
+
+interface Source {
+  id: string;
+  pcm: Buffer | null; // whole clip in memory...
+  offset: number;
+  stream: Readable | null; // ...or 48k stereo s16le as it arrives
+  pending: Buffer;
+  volume: number;
+  takenBytes: number;
+  error?: Error;
+}
+
+interface Foreground extends Source {
+  duck: boolean;
+}
+
+interface Track extends Source {
+  open: () => Readable;
+  loop: boolean;
+}
+
+/**
+ * Mixes one foreground source (the playback queue's current item) with any number
+ * of background tracks into a single 48k stereo s16le stream for the audio player.
+ * Frames are only mixed when the player asks for them, so sources are read at
+ * playback speed; a source that hasn't produced data yet is silent for that frame.
+ * The output ends once nothing is left to play; `createOutput()` starts a new one.
+ *
+ * Events: `foregroundEnd` (id, error?) and `trackEnd` (id, error?) when a source
+ * runs out or fails. Sources removed with `stopForeground()`/`removeTrack()` don't
+ * emit them.
+ */
+export class AudioMixer extends EventEmitter {
+  private foreground: Foreground | null = null;
+  private tracks: Map<string, Track> = new Map();
+  private output: Readable | null = null;
+  private foregroundGain = 1;
+  private duckLevel = 1;
+
+  constructor(private options: MixerOptions) {
+    super();
+  }
+
+  get active(): boolean {
+    return this.foreground !== null || this.tracks.size > 0;
+  }
+
+  get hasOutput(): boolean {
+    return this.output !== null;
+  }
+
+  get trackCount(): number {
+    return this.tracks.size;
+  }
+
+  get foregroundId(): string | null {
+    return this.foreground?.id ?? null;
+  }
+
+  // Replaces the current foreground source, if any, without emitting `foregroundEnd`
+  playForeground(id: string, source: Buffer | Readable, options: ForegroundOptions = {}) {
+    this.stopForeground();
+    this.foreground = {
+      ...this.source(id, source, options.volume),
+      duck: options.duck ?? false,
+    };
+  }
+
+  stopForeground() {
+    if (!this.foreground) return;
+    this.foreground.stream?.destroy();
+    this.foreground = null;
+  }
+
+  setOptions(options: MixerOptions) {
+    this.options = options;
+  }
+
+  // Multiplies the foreground volume, e.g. to duck the assistant while a user talks over it
+  setForegroundGain(gain: number) {
+    this.foregroundGain = gain;
+  }
+
+  addTrack(id: string, open: () => Readable, options: TrackOptions = {}) {
+    this.removeTrack(id);
+    this.tracks.set(id, { ...this.source(id, open(), options.volume), open, loop: options.loop ?? false });
+  }
+
+  removeTrack(id: string): boolean {
+    const track = this.tracks.get(id);
+    if (!track) return false;
+    track.stream?.destroy();
+    this.tracks.delete(id);
+    return true;
+  }
+
+  trackIds(): string[] {
+    return Array.from(this.tracks.keys());
+  }
+
+  // Foreground or background
+  setVolume(id: string, volume: number): boolean {
+    const source = this.foreground?.id === id ? this.foreground : this.tracks.get(id);
+    if (!source) return false;
+    source.volume = volume;
+    return true;
+  }
+
+  // `onFrame` sees every mixed frame, e.g. for recording
+  createOutput(onFrame?: (frame: Buffer) => void): Readable {
+    this.detachOutput();
+    const output = new Readable({
+      // One frame at a time, so volume and ducking changes are heard promptly
+      highWaterMark: MIX_FRAME_BYTES,
+      read: () => {
+        if (output.destroyed) return;
+        const frame = this.mixFrame();
+        if (!frame && this.output === output) this.output = null;
+        if (frame) onFrame?.(frame);
+        output.push(frame);
+      },
+    });
+    output.once('close', () => {
+      if (this.output === output) this.output = null;
+    });
+    this.output = output;
+    return output;
+  }
+
+  // Drops the current output along with whatever it had mixed ahead of the player
+  detachOutput() {
+    const output = this.output;
+    this.output = null;
+    output?.destroy();
+  }
+
+  stop() {
+    this.stopForeground();
+    for (const id of this.trackIds()) this.removeTrack(id);
+    this.detachOutput();
+  }
+
+  private source(id: string, source: Buffer | Readable, volume = 1): Source {
+    if (Buffer.isBuffer(source)) {
+      return { id, pcm: source, offset: 0, stream: null, pending: EMPTY, volume, takenBytes: 0 };
+    }
+    const entry: Source = { id, pcm: null, offset: 0, stream: source, pending: EMPTY, volume, takenBytes: 0 };
+    this.watch(entry, source);
+    return entry;
+  }
+
+  private watch(entry: Source, stream: Readable) {
+    stream.on('error', (error) => {
+      if (entry.stream === stream) entry.error = error;
+    });
+  }
+
+  private mixFrame(): Buffer | null {
+    if (!this.active) return null;
+    const mix = new Float32Array(FRAME_SAMPLES);
+
+    const foreground = this.foreground;
+    if (foreground) {
+      const chunk = this.take(foreground);
+      if (chunk) {
+        addScaled(mix, chunk, foreground.volume * this.foregroundGain, foreground.volume * this.foregroundGain);
+      } else {
+        this.foreground = null;
+        // Handlers usually start the next item right away, so the output keeps going
+        this.emit('foregroundEnd', foreground.id, foreground.error);
+      }
+    }
+
+    // Fade towards the target over `duckFadeMs`, interpolating across the frame so it doesn't click
+    const target = this.foreground?.duck ? this.options.duckVolume : 1;
+    const step = FRAME_MS / Math.max(FRAME_MS, this.options.duckFadeMs);
+    const duckFrom = this.duckLevel;
+    this.duckLevel = duckFrom < target ? Math.min(target, duckFrom + step) : Math.max(target, duckFrom - step);
+
+    for (const track of Array.from(this.tracks.values())) {
+      let chunk = this.take(track);
+      // Hardening: Only loop a source that produced audio, so a broken file can't respawn forever
+      if (!chunk && track.loop && !track.error && track.takenBytes > 0) {
+        track.stream = track.open();
+        track.pending = EMPTY;
+        track.takenBytes = 0;
+        this.watch(track, track.stream);
+        chunk = EMPTY;
+      }
+      if (!chunk) {
+        this.tracks.delete(track.id);
+        this.emit('trackEnd', track.id, track.error);
+        continue;
+      }
+      addScaled(mix, chunk, track.volume * duckFrom, track.volume * this.duckLevel);
+    }
+
+    if (!this.active) return null;
+
+    const frame = Buffer.alloc(MIX_FRAME_BYTES);
+    for (let i = 0; i < FRAME_SAMPLES; i++) {
+      frame.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(mix[i] * 32768))), i * 2);
+    }
+    return frame;
+  }
+
+  // Up to one frame of PCM; empty while a stream is still loading, null once the source is done
+  private take(source: Source): Buffer | null {
+    if (source.pcm) {
+      if (source.offset >= source.pcm.length) return null;
+      const chunk = source.pcm.subarray(source.offset, source.offset + MIX_FRAME_BYTES);
+      source.offset += chunk.length;
+      source.takenBytes += chunk.length;
+      return chunk;
+    }
+
+    const stream = source.stream!;
+    if (source.error) return null;
+    while (source.pending.length < MIX_FRAME_BYTES) {
+      // Object-mode streams hand back whole chunks of any size, byte streams whatever is buffered
+      const chunk: Buffer | null = stream.read();
+      if (!chunk) break;
+      source.pending = source.pending.length > 0 ? Buffer.concat([source.pending, chunk]) : chunk;
+    }
+
+    const done = stream.readableEnded || stream.destroyed;
+    if (source.pending.length < MIX_FRAME_BYTES && !done) return EMPTY;
+    if (source.pending.length === 0) return null;
+
+    const chunk = source.pending.subarray(0, MIX_FRAME_BYTES);
+    source.pending = source.pending.subarray(chunk.length);
+    source.takenBytes += chunk.length;
+    return chunk;
+  }
+}
+
+// Adds s16le samples to the mix, ramping the gain linearly from `from` to `to` across the frame
+function addScaled(mix: Float32Array, pcm: Buffer, from: number, to: number) {
+  const samples = Math.min(mix.length, Math.floor(pcm.length / 2));
+  for (let i = 0; i < samples; i++) {
+    const gain = from + (to - from) * (i / mix.length);
+    mix[i] += (pcm.readInt16LE(i * 2) / 32768) * gain;
+  }
+}
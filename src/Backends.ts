@@ -0,0 +1,191 @@
+import { PluginContext } from './types.js';
+import { Logger, OpenAIClient, TranscriptResult } from './VoiceConversation.js';
+import { VoiceMetrics } from './Metrics.js';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  toolCalls?: ToolCall[]; // assistant turns that asked for tools
+  toolCallId?: string; // tool turns: the call this is the result of
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema for the arguments object
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON, as produced by the model; may be malformed
+}
+
+// Billable usage reported by a backend, priced by the cost ledger per `model`
+export type UsageReport =
+  | { kind: 'asr'; model: string; minutes: number }
+  | { kind: 'chat'; model: string; inputTokens: number; outputTokens: number }
+  | { kind: 'tts'; model: string; characters: number };
+
+export interface RequestOptions {
+  // Aborted when the reply is no longer wanted (e.g. the user barged in)
+  signal?: AbortSignal;
+  onUsage?: (usage: UsageReport) => void;
+}
+
+export interface SynthesisOptions extends RequestOptions {
+  voice?: string; // backend-specific voice name; the backend's default when omitted
+  speed?: number; // 1 is normal; backends that can't change speed ignore it
+}
+
+export interface TranscriptionOptions extends RequestOptions {
+  detectLanguage?: boolean; // report the spoken language in the result; only asked for without a language hint
+}
+
+export interface SpeechToText {
+  transcribe(wavBuffer: Buffer, language?: string, options?: TranscriptionOptions): Promise<TranscriptResult>;
+}
+
+export interface ChatOptions extends RequestOptions {
+  // Backends without function calling can ignore both; the assistant then simply has no tools
+  tools?: ToolDefinition[];
+  toolChoice?: 'auto' | 'none'; // `none` makes the model answer in text even though tools are listed
+  onToolCalls?: (calls: ToolCall[]) => void; // called once the response is complete, if it asked for tools
+}
+
+export interface ChatModel {
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+  // Optional token streaming; the call falls back to `chat` when absent
+  chatStream?(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<string>;
+}
+
+export interface TextToSpeech {
+  // Returns audio in a file format; 16-bit WAV is converted in-process, anything else (mp3, ogg...) needs ffmpeg
+  synthesize(text: string, options?: SynthesisOptions): Promise<Buffer>;
+}
+
+export interface ModerationVerdict {
+  flagged: boolean;
+  categories: string[]; // why it was flagged, e.g. "harassment"; empty when it wasn't
+}
+
+export interface ModerationClassifier {
+  classify(text: string, options?: RequestOptions): Promise<ModerationVerdict>;
+}
+
+export interface SpeechBackends {
+  speechToText: SpeechToText;
+  chatModel: ChatModel;
+  textToSpeech: TextToSpeech;
+  moderation?: ModerationClassifier; // only when `moderation_backend` is set
+}
+
+export interface BackendContext {
+  // Config view scoped to the guild: `guild_backends[guildId]` entries win over top-level keys
+  config: PluginContext['config'];
+  logger: Logger;
+  guildId: string;
+  metrics?: VoiceMetrics; // backends may record API latency and errors here
+}
+
+export type BackendFactory<T> = (ctx: BackendContext) => T;
+
+export class BackendRegistry {
+  private speechToText: Map<string, BackendFactory<SpeechToText>> = new Map();
+  private chatModels: Map<string, BackendFactory<ChatModel>> = new Map();
+  private textToSpeech: Map<string, BackendFactory<TextToSpeech>> = new Map();
+  private moderation: Map<string, BackendFactory<ModerationClassifier>> = new Map();
+
+  registerSpeechToText(name: string, factory: BackendFactory<SpeechToText>): this {
+    this.speechToText.set(name, factory);
+    return this;
+  }
+
+  registerChatModel(name: string, factory: BackendFactory<ChatModel>): this {
+    this.chatModels.set(name, factory);
+    return this;
+  }
+
+  registerTextToSpeech(name: string, factory: BackendFactory<TextToSpeech>): this {
+    this.textToSpeech.set(name, factory);
+    return this;
+  }
+
+  registerModerationClassifier(name: string, factory: BackendFactory<ModerationClassifier>): this {
+    this.moderation.set(name, factory);
+    return this;
+  }
+
+  /**
+   * Builds the ASR / chat / TTS backends for a guild. Backend names come from
+   * `asr_backend`, `chat_backend` and `tts_backend` (default `openai`), and can be
+   * overridden per guild through `guild_backends`. A moderation classifier is
+   * only built when `moderation_backend` names one.
+   */
+  resolve(context: PluginContext, guildId: string, metrics?: VoiceMetrics): SpeechBackends {
+    const ctx: BackendContext = {
+      config: scopedConfig(context.config, guildId),
+      logger: context.logger,
+      guildId,
+      metrics,
+    };
+
+    const backends: SpeechBackends = {
+      speechToText: create(this.speechToText, 'speech-to-text', ctx.config.get('asr_backend') ?? 'openai', ctx),
+      chatModel: create(this.chatModels, 'chat', ctx.config.get('chat_backend') ?? 'openai', ctx),
+      textToSpeech: create(this.textToSpeech, 'text-to-speech', ctx.config.get('tts_backend') ?? 'openai', ctx),
+    };
+    const moderationBackend = ctx.config.get('moderation_backend');
+    if (moderationBackend) backends.moderation = create(this.moderation, 'moderation', moderationBackend, ctx);
+    return backends;
+  }
+}
+
+function create<T>(factories: Map<string, BackendFactory<T>>, kind: string, name: string, ctx: BackendContext): T {
+  const factory = factories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown ${kind} backend "${name}"`);
+  }
+  return factory(ctx);
+}
+
+function scopedConfig(config: PluginContext['config'], guildId: string): PluginContext['config'] {
+  return {
+    get(key: string) {
+      const overrides = config.get('guild_backends')?.[guildId];
+      if (overrides && overrides[key] !== undefined) return overrides[key];
+      return config.get(key);
+    },
+  };
+}
+
+// Each stage gets its own client so `asr_base_url` / `chat_base_url` / `tts_base_url`
+// can point individual stages at different OpenAI-compatible servers.
+function createOpenAIClient(ctx: BackendContext, stage: 'asr' | 'chat' | 'tts' | 'moderation'): OpenAIClient {
+  const baseUrl = ctx.config.get(`${stage}_base_url`) ?? ctx.config.get('openai_base_url');
+  const apiKey = ctx.config.get(`${stage}_api_key`) ?? ctx.config.get('openai_api_key') ?? process.env.OPENAI_API_KEY;
+
+  // Hardening: Only allow a missing key when talking to a self-hosted endpoint
+  if (!apiKey && !baseUrl) {
+    throw new Error('openai_api_key not configured');
+  }
+
+  return new OpenAIClient({
+    apiKey,
+    baseUrl,
+    chatModel: ctx.config.get('openai_chat_model') ?? 'gpt-4o-mini',
+    whisperModel: ctx.config.get('openai_whisper_model') ?? 'whisper-1',
+    ttsModel: ctx.config.get('openai_tts_model') ?? 'gpt-4o-mini-tts',
+    ttsVoice: ctx.config.get('openai_tts_voice') ?? 'alloy',
+    moderationModel: ctx.config.get('openai_moderation_model') ?? 'omni-moderation-latest',
+    maxTextLength: ctx.config.get('max_text_length') ?? 1000,
+  }, ctx.logger, ctx.metrics);
+}
+
+export function createDefaultBackendRegistry(): BackendRegistry {
+  return new BackendRegistry()
+    .registerSpeechToText('openai', (ctx) => createOpenAIClient(ctx, 'asr'))
+    .registerChatModel('openai', (ctx) => createOpenAIClient(ctx, 'chat'))
+    .registerTextToSpeech('openai', (ctx) => createOpenAIClient(ctx, 'tts'))
+    .registerModerationClassifier('openai', (ctx) => createOpenAIClient(ctx, 'moderation'));
+}
@@ -0,0 +1,94 @@
+import { Client, GatewayIntentBits } from 'discord.js';
+import { Logger } from './VoiceConversation.js';
+
+export interface PoolBot {
+  index: number; // 0 is the primary bot
+  client: Client;
+}
+
+export type PoolExhaustedReason = 'not-ready' | 'not-in-guild' | 'all-busy';
+
+export class BotPoolExhaustedError extends Error {
+  constructor(public readonly guildId: string, public readonly reason: PoolExhaustedReason, message: string) {
+    super(message);
+    this.name = 'BotPoolExhaustedError';
+  }
+}
+
+/**
+ * The bot accounts calls can run on. Discord allows one voice connection per bot
+ * per guild, so each extra bot lets one more channel in a guild have an assistant
+ * at the same time. The first token is the primary bot: it also handles slash
+ * commands and presence; the others only join voice.
+ */
+export class BotPool {
+  private bots: PoolBot[];
+
+  constructor(private tokens: string[], private logger: Logger) {
+    // Without a token the primary still exists so handlers can be attached; it just never logs in
+    const count = Math.max(1, tokens.length);
+    this.bots = Array.from({ length: count }, (_, index) => ({
+      index,
+      client: new Client({
+        intents: index === 0
+          ? [GatewayIntentBits.Guilds, GatewayIntentBits.GuildVoiceStates, GatewayIntentBits.GuildMessages]
+          : [GatewayIntentBits.Guilds, GatewayIntentBits.GuildVoiceStates],
+      }),
+    }));
+  }
+
+  get primary(): Client {
+    return this.bots[0].client;
+  }
+
+  get size(): number {
+    return this.tokens.length;
+  }
+
+  get readyCount(): number {
+    return this.bots.filter((bot) => bot.client.isReady()).length;
+  }
+
+  login() {
+    for (const [index, token] of this.tokens.entries()) {
+      const bot = this.bots[index];
+      bot.client.on('error', (err) => {
+        this.logger.error(`Discord client error (bot ${bot.index})`, { error: err.message });
+      });
+      bot.client.login(token).catch((err) => {
+        this.logger.error(`Failed to login to Discord (bot ${bot.index})`, { error: err.message });
+      });
+    }
+  }
+
+  // A logged-in bot that is in the guild and not in `busy` (bots already in a call there), preferring the primary
+  pick(guildId: string, busy: Set<number>): PoolBot {
+    const ready = this.bots.filter((bot) => bot.client.isReady());
+    if (ready.length === 0) {
+      throw new BotPoolExhaustedError(guildId, 'not-ready', 'No assistant bot is connected to Discord yet');
+    }
+
+    const inGuild = ready.filter((bot) => bot.client.guilds.cache.has(guildId));
+    if (inGuild.length === 0) {
+      throw new BotPoolExhaustedError(guildId, 'not-in-guild', `None of the assistant bots is a member of guild ${guildId}`);
+    }
+
+    const free = inGuild.find((bot) => !busy.has(bot.index));
+    if (!free) {
+      throw new BotPoolExhaustedError(guildId, 'all-busy', `All ${inGuild.length} assistant bot(s) in this server are already in a call; end one or add another bot token`);
+    }
+    return free;
+  }
+
+  destroy() {
+    for (const bot of this.bots) bot.client.destroy();
+  }
+}
+
+// Tokens from DISCORD_TOKENS (comma-separated) or DISCORD_TOKEN, else `discord_tokens` / `discord_token`; duplicates dropped
+export function botTokensFrom(config: { get(key: string): any }, env: NodeJS.ProcessEnv = process.env): string[] {
+  const fromEnv = env.DISCORD_TOKENS?.split(',') ?? (env.DISCORD_TOKEN ? [env.DISCORD_TOKEN] : []);
+  const fromConfig: string[] = config.get('discord_tokens') ?? (config.get('discord_token') ? [config.get('discord_token')] : []);
+  const tokens = (fromEnv.length > 0 ? fromEnv : fromConfig).map((token) => token.trim()).filter(Boolean);
+  return Array.from(new Set(tokens));
+}
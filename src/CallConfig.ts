@@ -0,0 +1,396 @@
+import { VadMode } from './VoiceActivityDetector.js';
+import { ActivationMode } from './ActivationPolicy.js';
+import { RecordingFormat } from './CallRecorder.js';
+import { TranscriptFormat } from './TranscriptStore.js';
+import { CallMode } from './Interpreter.js';
+import { ModerationAction, ModerationSource } from './Moderation.js';
+
+type ConfigSource = { get(key: string): any; keys?(): string[] };
+
+/**
+ * Everything a call reads from the configuration. Each setting can be overridden
+ * per guild (`guild_overrides`) and per voice channel (`channel_overrides`); the
+ * channel wins over the guild, which wins over the top-level value.
+ */
+export interface CallSettings {
+  callMode: CallMode;
+  assistantPrompt: string;
+  ttsVoice: string | undefined; // the backend's default voice when unset
+  speechLanguage: string | undefined;
+  vadMode: VadMode;
+  vadHangoverMs: number | undefined;
+  speechEnergyThreshold: number;
+  speechMinUtteranceMs: number;
+  speechSilenceMs: number;
+  speechMaxUtteranceMs: number;
+  speechPrerollMs: number;
+  maxTextLength: number;
+  rateLimitNotice: boolean;
+  rateLimitNoticeText: string;
+  rateLimitMaxDelayMs: number;
+  costLimitAction: 'refuse' | 'transcribe-only';
+  bargeIn: 'off' | 'stop' | 'duck';
+  bargeInDuckVolume: number;
+  streamingReplies: boolean;
+  conversationMode: 'per-user' | 'channel';
+  memoryMaxTurns: number;
+  memoryKeepTurns: number;
+  memorySummaries: boolean;
+  memorySummaryMaxLength: number;
+  activationMode: ActivationMode;
+  wakePhrases: string[];
+  respondToName: boolean;
+  followUpWindowMs: number;
+  botNames: string[];
+  transcriptDir: string | undefined;
+  transcriptFormats: TranscriptFormat[];
+  reconnectMaxAttempts: number;
+  reconnectBaseDelayMs: number;
+  reconnectMaxDelayMs: number;
+  reconnectTimeoutMs: number;
+  recordingDir: string;
+  recordingFormat: RecordingFormat;
+  recordingAnnouncement: string;
+  playbackQueueLimit: number;
+  backgroundDuckVolume: number;
+  backgroundDuckFadeMs: number;
+  toolsEnabled: boolean;
+  disabledTools: string[];
+  toolRoleIds: Record<string, string[]>;
+  toolTextChannelId: string | undefined;
+  interpreterLanguages: string[];
+  interpreterVoices: string[];
+  interpreterCaptions: boolean;
+  interpreterCaptionChannelId: string | undefined;
+  moderation: boolean;
+  moderationChecks: ModerationSource[];
+  moderationReplyCheck: 'sentence' | 'whole';
+  moderationActions: ModerationAction[];
+  moderationKeywords: string[];
+  moderationPatterns: string[];
+  moderationCannedResponse: string;
+  moderationChannelId: string | undefined;
+  moderationOnError: 'allow' | 'block';
+}
+
+export type FieldSpec =
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'string' }
+  | { type: 'boolean' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'list'; values?: readonly string[] } // strings, optionally from a fixed set
+  | { type: 'map' };
+
+export type SettingSpec<T> = FieldSpec & { key: string; default: T };
+
+export const CALL_SETTINGS: { [K in keyof CallSettings]-?: SettingSpec<CallSettings[K]> } = {
+  callMode: { key: 'call_mode', type: 'enum', values: ['assistant', 'interpreter'], default: 'assistant' },
+  assistantPrompt: { key: 'assistant_prompt', type: 'string', default: 'You are a helpful assistant in a Discord voice chat.' },
+  ttsVoice: { key: 'tts_voice', type: 'string', default: undefined },
+  speechLanguage: { key: 'speech_language', type: 'string', default: undefined },
+  vadMode: { key: 'vad_mode', type: 'enum', values: ['adaptive', 'energy'], default: 'adaptive' },
+  vadHangoverMs: { key: 'vad_hangover_ms', type: 'number', min: 0, max: 2000, default: undefined },
+  speechEnergyThreshold: { key: 'speech_energy_threshold', type: 'number', min: 0, max: 1, default: 0.02 },
+  speechMinUtteranceMs: { key: 'speech_min_utterance_ms', type: 'number', min: 0, max: 5000, default: 250 },
+  speechSilenceMs: { key: 'speech_silence_ms', type: 'number', min: 20, max: 10000, default: 800 },
+  speechMaxUtteranceMs: { key: 'speech_max_utterance_ms', type: 'number', min: 1000, max: 120000, default: 15000 },
+  speechPrerollMs: { key: 'speech_preroll_ms', type: 'number', min: 0, max: 2000, default: 300 },
+  maxTextLength: { key: 'max_text_length', type: 'number', integer: true, min: 1, default: 1000 },
+  rateLimitNotice: { key: 'rate_limit_notice', type: 'boolean', default: false },
+  rateLimitNoticeText: { key: 'rate_limit_notice_text', type: 'string', default: 'Slow down a little, I will get to you in a moment.' },
+  rateLimitMaxDelayMs: { key: 'rate_limit_max_delay_ms', type: 'number', min: 0, default: 60000 },
+  costLimitAction: { key: 'cost_limit_action', type: 'enum', values: ['refuse', 'transcribe-only'], default: 'refuse' },
+  bargeIn: { key: 'barge_in', type: 'enum', values: ['off', 'stop', 'duck'], default: 'stop' },
+  bargeInDuckVolume: { key: 'barge_in_duck_volume', type: 'number', min: 0, max: 1, default: 0.2 },
+  streamingReplies: { key: 'streaming_replies', type: 'boolean', default: true },
+  conversationMode: { key: 'conversation_mode', type: 'enum', values: ['per-user', 'channel'], default: 'per-user' },
+  memoryMaxTurns: { key: 'memory_max_turns', type: 'number', integer: true, min: 1, default: 20 },
+  memoryKeepTurns: { key: 'memory_keep_turns', type: 'number', integer: true, min: 0, default: 10 },
+  memorySummaries: { key: 'memory_summaries', type: 'boolean', default: true },
+  memorySummaryMaxLength: { key: 'memory_summary_max_length', type: 'number', integer: true, min: 1, default: 1000 },
+  activationMode: { key: 'activation_mode', type: 'enum', values: ['always', 'wake-word', 'push-to-talk'], default: 'always' },
+  wakePhrases: { key: 'wake_phrases', type: 'list', default: [] },
+  respondToName: { key: 'respond_to_name', type: 'boolean', default: true },
+  followUpWindowMs: { key: 'follow_up_window_ms', type: 'number', min: 0, default: 8000 },
+  botNames: { key: 'bot_names', type: 'list', default: [] },
+  transcriptDir: { key: 'transcript_dir', type: 'string', default: undefined },
+  transcriptFormats: { key: 'transcript_formats', type: 'list', values: ['jsonl', 'srt', 'vtt'], default: ['jsonl', 'srt', 'vtt'] },
+  reconnectMaxAttempts: { key: 'reconnect_max_attempts', type: 'number', integer: true, min: 0, default: 6 },
+  reconnectBaseDelayMs: { key: 'reconnect_base_delay_ms', type: 'number', min: 0, default: 1000 },
+  reconnectMaxDelayMs: { key: 'reconnect_max_delay_ms', type: 'number', min: 0, default: 30000 },
+  reconnectTimeoutMs: { key: 'reconnect_timeout_ms', type: 'number', min: 1, default: 15000 },
+  recordingDir: { key: 'recording_dir', type: 'string', default: 'recordings' },
+  recordingFormat: { key: 'recording_format', type: 'enum', values: ['wav', 'ogg'], default: 'wav' },
+  recordingAnnouncement: { key: 'recording_announcement', type: 'string', default: 'This call is now being recorded.' },
+  playbackQueueLimit: { key: 'playback_queue_limit', type: 'number', integer: true, min: 1, default: 20 },
+  backgroundDuckVolume: { key: 'background_duck_volume', type: 'number', min: 0, max: 1, default: 0.3 },
+  backgroundDuckFadeMs: { key: 'background_duck_fade_ms', type: 'number', min: 0, default: 300 },
+  toolsEnabled: { key: 'tools_enabled', type: 'boolean', default: true },
+  disabledTools: { key: 'disabled_tools', type: 'list', default: [] },
+  toolRoleIds: { key: 'tool_role_ids', type: 'map', default: {} },
+  toolTextChannelId: { key: 'tool_text_channel_id', type: 'string', default: undefined },
+  interpreterLanguages: { key: 'interpreter_languages', type: 'list', default: ['en'] },
+  interpreterVoices: { key: 'interpreter_voices', type: 'list', default: ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'] },
+  interpreterCaptions: { key: 'interpreter_captions', type: 'boolean', default: false },
+  interpreterCaptionChannelId: { key: 'interpreter_caption_channel_id', type: 'string', default: undefined },
+  moderation: { key: 'moderation', type: 'boolean', default: false },
+  moderationChecks: { key: 'moderation_checks', type: 'list', values: ['transcript', 'reply'], default: ['transcript', 'reply'] },
+  moderationReplyCheck: { key: 'moderation_reply_check', type: 'enum', values: ['sentence', 'whole'], default: 'sentence' },
+  moderationActions: { key: 'moderation_actions', type: 'list', values: ['refuse', 'canned', 'log', 'notify'], default: ['refuse', 'log'] },
+  moderationKeywords: { key: 'moderation_keywords', type: 'list', default: [] },
+  moderationPatterns: { key: 'moderation_patterns', type: 'list', default: [] },
+  moderationCannedResponse: { key: 'moderation_canned_response', type: 'string', default: "Sorry, I can't help with that." },
+  moderationChannelId: { key: 'moderation_channel_id', type: 'string', default: undefined },
+  moderationOnError: { key: 'moderation_on_error', type: 'enum', values: ['allow', 'block'], default: 'allow' },
+};
+
+// Read once by the provider at startup; these can't be overridden per guild or channel
+export const PROVIDER_OPTIONS: Record<string, FieldSpec> = {
+  discord_token: { type: 'string' },
+  discord_tokens: { type: 'list' },
+  openai_api_key: { type: 'string' },
+  openai_base_url: { type: 'string' },
+  openai_chat_model: { type: 'string' },
+  openai_whisper_model: { type: 'string' },
+  openai_tts_model: { type: 'string' },
+  openai_tts_voice: { type: 'string' },
+  openai_moderation_model: { type: 'string' },
+  asr_backend: { type: 'string' },
+  chat_backend: { type: 'string' },
+  tts_backend: { type: 'string' },
+  moderation_backend: { type: 'string' },
+  asr_base_url: { type: 'string' },
+  chat_base_url: { type: 'string' },
+  tts_base_url: { type: 'string' },
+  asr_api_key: { type: 'string' },
+  chat_api_key: { type: 'string' },
+  tts_api_key: { type: 'string' },
+  moderation_base_url: { type: 'string' },
+  moderation_api_key: { type: 'string' },
+  guild_backends: { type: 'map' },
+  cost_ledger_path: { type: 'string' },
+  monthly_cost_limit: { type: 'number', min: 0 },
+  monthly_guild_cost_limit: { type: 'number', min: 0 },
+  monthly_user_cost_limit: { type: 'number', min: 0 },
+  cost_estimates: { type: 'map' },
+  memory_persist: { type: 'boolean' },
+  memory_path: { type: 'string' },
+  voice_profiles_path: { type: 'string' },
+  voice_control_role_ids: { type: 'list' },
+  voice_admin_role_ids: { type: 'list' },
+  metrics_port: { type: 'number', integer: true, min: 0, max: 65535 },
+  metrics_host: { type: 'string' },
+  metrics_path: { type: 'string' },
+  slash_commands: { type: 'boolean' },
+  slash_command_guild_ids: { type: 'list' },
+  presence: { type: 'map' },
+  guild_presence: { type: 'map' },
+  rate_limit_ms: { type: 'number', min: 1 },
+  rate_limit_user_per_minute: { type: 'number', min: 0 },
+  rate_limit_user_burst: { type: 'number', integer: true, min: 1 },
+  rate_limit_guild_per_minute: { type: 'number', min: 0 },
+  rate_limit_guild_burst: { type: 'number', integer: true, min: 1 },
+  rate_limit_global_per_minute: { type: 'number', min: 0 },
+  rate_limit_global_burst: { type: 'number', integer: true, min: 1 },
+  guild_overrides: { type: 'map' },
+  channel_overrides: { type: 'map' },
+};
+
+const SETTINGS_BY_KEY: Map<string, SettingSpec<unknown>> = new Map(
+  Object.values(CALL_SETTINGS).map((spec) => [spec.key, spec as SettingSpec<unknown>])
+);
+
+const OVERRIDE_SCOPES = ['guild_overrides', 'channel_overrides'] as const;
+
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid discord-voice configuration:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+export interface ConfigCheck {
+  errors: string[]; // the configuration can't be used
+  warnings: string[]; // unknown options, most likely misspelt
+}
+
+// The guild and channel whose overrides apply; either may be omitted to check a layer on its own
+export interface SettingsScope {
+  guildId?: string;
+  channelId?: string;
+}
+
+/**
+ * Resolves a call's settings: channel override, then guild override, then the
+ * top-level option, then the default. Throws a `ConfigError` listing every
+ * invalid value rather than falling back to defaults.
+ */
+export function resolveCallSettings(config: ConfigSource, scope: SettingsScope = {}): CallSettings {
+  const { settings, errors } = collectSettings(config, scope);
+  if (errors.length > 0) throw new ConfigError(errors);
+  return settings;
+}
+
+/**
+ * Checks the whole configuration: every top-level option, and every guild and
+ * channel override layered over it. Unknown top-level options are only reported
+ * when the host can list its keys; custom backends may read options of their own,
+ * so those are warnings rather than errors.
+ */
+export function validateConfig(config: ConfigSource): ConfigCheck {
+  const errors = new Set<string>(collectSettings(config, {}).errors);
+  const warnings: string[] = [];
+
+  for (const [key, spec] of Object.entries(PROVIDER_OPTIONS)) {
+    const issue = checkValue(config.get(key), spec);
+    if (issue) errors.add(`${key} ${issue}`);
+  }
+
+  for (const scope of OVERRIDE_SCOPES) {
+    const blocks = config.get(scope);
+    if (!isPlainObject(blocks)) continue; // reported above
+    for (const [id, block] of Object.entries(blocks)) {
+      if (!isPlainObject(block)) {
+        errors.add(`${scope}.${id} must be an object of options`);
+        continue;
+      }
+      for (const key of Object.keys(block)) {
+        if (!SETTINGS_BY_KEY.has(key)) {
+          errors.add(`${scope}.${id}.${key} can't be overridden here${suggestion(key, SETTINGS_BY_KEY.keys())}`);
+        }
+      }
+      const layer = scope === 'guild_overrides' ? { guildId: id } : { channelId: id };
+      collectSettings(config, layer).errors.forEach((error) => errors.add(error));
+    }
+  }
+
+  const known = [...SETTINGS_BY_KEY.keys(), ...Object.keys(PROVIDER_OPTIONS)];
+  for (const key of config.keys?.() ?? []) {
+    if (!known.includes(key)) warnings.push(`Unknown option ${key}${suggestion(key, known)}`);
+  }
+
+  return { errors: Array.from(errors), warnings };
+}
+
+function collectSettings(config: ConfigSource, scope: SettingsScope): { settings: CallSettings; errors: string[] } {
+  const layers: Array<[string, Record<string, unknown>]> = [];
+  if (scope.channelId) layers.push(overrideLayer(config, 'channel_overrides', scope.channelId));
+  if (scope.guildId) layers.push(overrideLayer(config, 'guild_overrides', scope.guildId));
+
+  const errors: string[] = [];
+  const settings: Record<string, unknown> = {};
+  const paths: Record<string, string> = {}; // where each value came from, for error messages
+  for (const [name, spec] of Object.entries(CALL_SETTINGS) as Array<[string, SettingSpec<unknown>]>) {
+    let path = spec.key;
+    let value = config.get(spec.key);
+    for (const [prefix, overrides] of layers) {
+      if (overrides[spec.key] !== undefined) {
+        path = `${prefix}.${spec.key}`;
+        value = overrides[spec.key];
+        break;
+      }
+    }
+
+    const issue = checkValue(value, spec);
+    if (issue) errors.push(`${path} ${issue}`);
+    paths[name] = path;
+    settings[name] = issue || value === undefined || value === null ? spec.default : value;
+  }
+
+  const resolved = settings as unknown as CallSettings;
+  if (resolved.memoryKeepTurns > resolved.memoryMaxTurns) {
+    errors.push(`${paths.memoryKeepTurns} (${resolved.memoryKeepTurns}) must not exceed ${paths.memoryMaxTurns} (${resolved.memoryMaxTurns})`);
+  }
+  if (resolved.reconnectBaseDelayMs > resolved.reconnectMaxDelayMs) {
+    errors.push(`${paths.reconnectBaseDelayMs} (${resolved.reconnectBaseDelayMs}) must not exceed ${paths.reconnectMaxDelayMs} (${resolved.reconnectMaxDelayMs})`);
+  }
+  const badLanguage = resolved.interpreterLanguages.find((language) => !/^[a-z]{2,3}$/.test(language));
+  if (badLanguage !== undefined) {
+    errors.push(`${paths.interpreterLanguages} must only contain ISO-639 codes such as "en" (got "${badLanguage}")`);
+  }
+  if (resolved.callMode === 'interpreter' && resolved.interpreterLanguages.length === 0) {
+    errors.push(`${paths.interpreterLanguages} must name at least one language in interpreter mode`);
+  }
+  for (const pattern of resolved.moderationPatterns) {
+    try {
+      new RegExp(pattern, 'iu');
+    } catch {
+      errors.push(`${paths.moderationPatterns} has an invalid regular expression (got "${pattern}")`);
+    }
+  }
+  if (resolved.moderation && resolved.moderationActions.includes('notify') && !resolved.moderationChannelId) {
+    errors.push(`${paths.moderationActions} includes "notify", so moderation_channel_id must be set`);
+  }
+  return { settings: resolved, errors };
+}
+
+function overrideLayer(config: ConfigSource, scope: typeof OVERRIDE_SCOPES[number], id: string): [string, Record<string, unknown>] {
+  const block = config.get(scope)?.[id];
+  return [`${scope}.${id}`, isPlainObject(block) ? block : {}];
+}
+
+// What is wrong with a value, or null if it fits; `undefined` and `null` mean "use the default"
+function checkValue(value: unknown, spec: FieldSpec): string | null {
+  if (value === undefined || value === null) return null;
+
+  switch (spec.type) {
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `must be a number (got ${describe(value)})`;
+      if (spec.integer && !Number.isInteger(value)) return `must be a whole number (got ${value})`;
+      const outOfRange = (spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max);
+      if (!outOfRange) return null;
+      if (spec.min !== undefined && spec.max !== undefined) return `must be between ${spec.min} and ${spec.max} (got ${value})`;
+      return spec.min !== undefined ? `must be at least ${spec.min} (got ${value})` : `must be at most ${spec.max} (got ${value})`;
+    }
+    case 'string':
+      return typeof value === 'string' ? null : `must be a string (got ${describe(value)})`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `must be true or false (got ${describe(value)})`;
+    case 'enum':
+      return spec.values.includes(value as string) ? null : `must be one of ${spec.values.map((v) => `"${v}"`).join(', ')} (got ${describe(value)})`;
+    case 'list': {
+      if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) return `must be a list of strings (got ${describe(value)})`;
+      const unknown = spec.values && value.find((item) => !spec.values!.includes(item));
+      return unknown ? `may only contain ${spec.values!.map((v) => `"${v}"`).join(', ')} (got "${unknown}")` : null;
+    }
+    case 'map':
+      return isPlainObject(value) ? null : `must be an object (got ${describe(value)})`;
+  }
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ` (did you mean "x"?)` for the closest known option within a couple of typos
+function suggestion(key: string, candidates: Iterable<string>): string {
+  let best: string | null = null;
+  let bestDistance = 3;
+  for (const candidate of candidates) {
+    const distance = editDistance(key, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best ? ` (did you mean "${best}"?)` : '';
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,312 @@
+import { createWriteStream, WriteStream } from 'fs';
+import { mkdir, open, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { finished } from 'stream/promises';
+import { spawn } from 'child_process';
+import { Logger } from './VoiceConversation.js';
+
+const SAMPLE_RATE = 48000;
+const CHANNELS = 2;
+const BYTES_PER_FRAME = CHANNELS * 2; // s16le stereo
+const BYTES_PER_MS = SAMPLE_RATE * BYTES_PER_FRAME / 1000;
+// Gaps shorter than this are receive jitter, not silence
+const GAP_TOLERANCE_MS = 60;
+const MIX_BLOCK_BYTES = BYTES_PER_FRAME * SAMPLE_RATE; // one second per mixdown pass
+
+export type RecordingFormat = 'wav' | 'ogg';
+
+export interface RecordingOptions {
+  directory: string; // created if missing; files are written straight into it
+  format?: RecordingFormat; // `ogg` transcodes to Ogg/Opus with ffmpeg when the recording stops
+  includeBot?: boolean; // record the bot's own output as a track (default true)
+}
+
+export interface RecordingTrack {
+  userId: string; // `bot` for the assistant's own output
+  kind: 'user' | 'bot';
+  file: string;
+  offsetMs: number; // where the track starts, relative to the start of the recording
+  durationMs: number;
+  failed?: boolean; // writing it failed (e.g. disk full); the file is incomplete and left out of the mixdown
+}
+
+export interface RecordingManifest {
+  callId: string;
+  guildId: string;
+  channelId: string;
+  startedAt: string;
+  endedAt: string;
+  sampleRate: number;
+  channels: number;
+  format: RecordingFormat;
+  tracks: RecordingTrack[];
+  mixdown: string | null;
+}
+
+class TrackWriter {
+  private stream: WriteStream;
+  private writtenBytes = 0;
+  private error: Error | null = null;
+
+  constructor(public readonly path: string, public readonly offsetMs: number, onError: (error: Error) => void) {
+    this.stream = createWriteStream(path);
+    // Hardening: A disk error must not become an uncaught exception; the track stops and is marked failed
+    this.stream.on('error', (error) => {
+      if (this.error) return;
+      this.error = error;
+      onError(error);
+    });
+    // Placeholder header; sizes are patched in when the track is closed
+    this.stream.write(wavHeader(0));
+  }
+
+  get durationMs(): number {
+    return this.writtenBytes / BYTES_PER_MS;
+  }
+
+  get byteLength(): number {
+    return this.writtenBytes;
+  }
+
+  get failed(): boolean {
+    return this.error !== null;
+  }
+
+  // `atMs` is where the chunk starts on the track's own timeline
+  write(pcm: Buffer, atMs: number) {
+    const expectedBytes = alignFrame(atMs * BYTES_PER_MS);
+    const gapBytes = expectedBytes - this.writtenBytes;
+    if (gapBytes > GAP_TOLERANCE_MS * BYTES_PER_MS) {
+      this.append(Buffer.alloc(gapBytes));
+    }
+    this.append(pcm.subarray(0, alignFrame(pcm.length)));
+  }
+
+  private append(chunk: Buffer) {
+    if (this.error) return;
+    this.stream.write(chunk);
+    this.writtenBytes += chunk.length;
+  }
+
+  async close() {
+    this.stream.end();
+    // A failure surfaces through the error handler; the header is only patched on a complete file
+    await finished(this.stream).catch(() => undefined);
+    if (this.error) return;
+    const handle = await open(this.path, 'r+');
+    try {
+      await handle.write(wavHeader(this.writtenBytes), 0, 44, 0);
+    } finally {
+      await handle.close();
+    }
+  }
+}
+
+/**
+ * Writes one time-aligned track per speaker (silence gaps included), plus the bot's
+ * own output, and mixes them down when the recording stops. Tracks start at the
+ * speaker's first audio; their offsets are listed in `manifest.json`.
+ */
+export class CallRecorder {
+  private tracks: Map<string, TrackWriter> = new Map();
+  private startedAt = Date.now();
+  private stopped = false;
+
+  constructor(
+    private meta: { callId: string; guildId: string; channelId: string },
+    private options: RecordingOptions,
+    private logger: Logger
+  ) {}
+
+  async start() {
+    await mkdir(this.options.directory, { recursive: true });
+    this.startedAt = Date.now();
+  }
+
+  get isRecording(): boolean {
+    return !this.stopped;
+  }
+
+  // `at` is the wall-clock time the chunk was received
+  writeUser(userId: string, pcm: Buffer, at: number = Date.now()) {
+    // Received chunks are timestamped on arrival, i.e. at their end
+    this.write(`user-${userId}`, pcm, at - pcm.length / BYTES_PER_MS);
+  }
+
+  // `startedAt` is the wall-clock time the bot started playing `pcm`
+  writeBot(pcm: Buffer, startedAt: number) {
+    if (this.options.includeBot === false) return;
+    this.write('bot', pcm, startedAt);
+  }
+
+  private write(trackId: string, pcm: Buffer, startedAt: number) {
+    if (this.stopped || pcm.length === 0) return;
+
+    const recordingMs = Math.max(0, startedAt - this.startedAt);
+    let track = this.tracks.get(trackId);
+    if (!track) {
+      track = new TrackWriter(join(this.options.directory, `${trackId}.wav`), Math.round(recordingMs), (error) => {
+        this.logger.error(`Recording track ${trackId} failed for call ${this.meta.callId}`, { error: error.message });
+      });
+      this.tracks.set(trackId, track);
+    }
+    track.write(pcm, recordingMs - track.offsetMs);
+  }
+
+  async stop(): Promise<RecordingManifest> {
+    this.stopped = true;
+    const endedAt = new Date();
+    const format = this.options.format ?? 'wav';
+
+    const entries = Array.from(this.tracks.entries());
+    await Promise.all(entries.map(([, track]) => track.close()));
+
+    const complete = entries.map(([, track]) => track).filter((track) => !track.failed);
+    let mixdown: string | null = null;
+    if (complete.length > 0) {
+      mixdown = join(this.options.directory, 'mixdown.wav');
+      await mixTracks(complete, mixdown);
+    }
+
+    const tracks: RecordingTrack[] = entries.map(([trackId, track]) => ({
+      userId: trackId === 'bot' ? 'bot' : trackId.slice('user-'.length),
+      kind: trackId === 'bot' ? 'bot' : 'user',
+      file: track.path,
+      offsetMs: track.offsetMs,
+      durationMs: Math.round(track.durationMs),
+      ...(track.failed && { failed: true }),
+    }));
+
+    if (format === 'ogg') {
+      for (const track of tracks) {
+        if (!track.failed) track.file = await this.transcodeToOgg(track.file, track.durationMs);
+      }
+      const mixdownMs = Math.max(0, ...tracks.map((track) => track.offsetMs + track.durationMs));
+      if (mixdown) mixdown = await this.transcodeToOgg(mixdown, mixdownMs);
+    }
+
+    const manifest: RecordingManifest = {
+      ...this.meta,
+      startedAt: new Date(this.startedAt).toISOString(),
+      endedAt: endedAt.toISOString(),
+      sampleRate: SAMPLE_RATE,
+      channels: CHANNELS,
+      format,
+      tracks,
+      mixdown,
+    };
+    await writeFile(join(this.options.directory, 'manifest.json'), JSON.stringify(manifest, null, 2), 'utf8');
+    this.tracks.clear();
+
+    this.logger.info(`Recording for call ${this.meta.callId} saved to ${this.options.directory}`);
+    return manifest;
+  }
+
+  // Keeps the WAV if ffmpeg is unavailable, so a recording is never lost to a failed transcode
+  private async transcodeToOgg(wavPath: string, durationMs: number): Promise<string> {
+    const oggPath = wavPath.replace(/\.wav$/, '.ogg');
+    try {
+      // Opus encodes far faster than real time; taking longer than the audio lasts means ffmpeg is stuck
+      await runFfmpeg(['-y', '-i', wavPath, '-c:a', 'libopus', '-b:a', '96k', oggPath], Math.max(60_000, durationMs));
+      await unlink(wavPath);
+      return oggPath;
+    } catch (error) {
+      await unlink(oggPath).catch(() => undefined); // a partial file from a failed or stuck transcode
+      this.logger.warn(`Could not transcode ${wavPath} to Ogg/Opus; keeping WAV`, { error: error instanceof Error ? error.message : 'Unknown error' });
+      return wavPath;
+    }
+  }
+}
+
+// Sums every track into one file block by block, so long calls never have to fit in memory
+async function mixTracks(tracks: TrackWriter[], outputPath: string) {
+  const spans = tracks.map((track) => ({
+    track,
+    start: alignFrame(track.offsetMs * BYTES_PER_MS),
+    length: track.byteLength,
+  }));
+  const totalBytes = Math.max(...spans.map((span) => span.start + span.length));
+
+  const output = await open(outputPath, 'w');
+  const inputs = await Promise.all(spans.map((span) => open(span.track.path, 'r')));
+  try {
+    await output.write(wavHeader(totalBytes), 0, 44, 0);
+
+    const mix = new Int32Array(MIX_BLOCK_BYTES / 2);
+    const block = Buffer.alloc(MIX_BLOCK_BYTES);
+    for (let blockStart = 0; blockStart < totalBytes; blockStart += MIX_BLOCK_BYTES) {
+      const blockBytes = Math.min(MIX_BLOCK_BYTES, totalBytes - blockStart);
+      mix.fill(0);
+
+      for (let i = 0; i < spans.length; i++) {
+        const { start, length } = spans[i];
+        const from = Math.max(blockStart, start);
+        const to = Math.min(blockStart + blockBytes, start + length);
+        if (to <= from) continue;
+
+        const { bytesRead } = await inputs[i].read(block, 0, to - from, 44 + (from - start));
+        const sampleOffset = (from - blockStart) / 2;
+        for (let s = 0; s < bytesRead / 2; s++) {
+          mix[sampleOffset + s] += block.readInt16LE(s * 2);
+        }
+      }
+
+      for (let s = 0; s < blockBytes / 2; s++) {
+        block.writeInt16LE(Math.max(-32768, Math.min(32767, mix[s])), s * 2);
+      }
+      await output.write(block, 0, blockBytes, 44 + blockStart);
+    }
+  } finally {
+    await Promise.all(inputs.map((input) => input.close()));
+    await output.close();
+  }
+}
+
+function alignFrame(bytes: number): number {
+  return Math.floor(bytes / BYTES_PER_FRAME) * BYTES_PER_FRAME;
+}
+
+function wavHeader(dataBytes: number): Buffer {
+  // Hardening: WAV sizes are 32-bit; clamp rather than wrap on very long recordings
+  const size = Math.min(dataBytes, 0xFFFFFFFF - 36);
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + size, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(CHANNELS, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * BYTES_PER_FRAME, 28);
+  header.writeUInt16LE(BYTES_PER_FRAME, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(size, 40);
+  return header;
+}
+
+function runFfmpeg(args: string[], timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'ignore'] });
+
+    // Hardening: Timeout for FFmpeg to prevent hanging
+    const timeout = setTimeout(() => {
+      ffmpeg.kill('SIGTERM');
+      reject(new Error('FFmpeg timed out'));
+    }, timeoutMs);
+
+    ffmpeg.on('error', (err) => {
+      clearTimeout(timeout);
+      reject(err);
+    });
+    ffmpeg.on('close', (code) => {
+      clearTimeout(timeout);
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}`));
+      }
+    });
+  });
+}
@@ -0,0 +1,228 @@
+import { EventEmitter } from 'events';
+import {
+  DiscordGatewayAdapterCreator,
+  VoiceConnection,
+  VoiceConnectionDisconnectReason,
+  VoiceConnectionState,
+  VoiceConnectionStatus,
+  entersState,
+  joinVoiceChannel,
+} from '@discordjs/voice';
+import { Logger } from './VoiceConversation.js';
+
+export type ConnectionState = `${VoiceConnectionStatus}`;
+
+export type ConnectionCloseReason = 'kicked' | 'retries-exhausted';
+
+export interface ConnectionStateChange {
+  from: ConnectionState;
+  to: ConnectionState;
+  closeCode?: number; // voice WebSocket close code, when that is what disconnected it
+}
+
+export interface ReconnectAttempt {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+}
+
+export interface ReconnectOptions {
+  maxAttempts: number;
+  baseDelayMs: number; // first retry waits up to this long; each later one up to twice as long as the last
+  maxDelayMs: number;
+  readyTimeoutMs: number; // how long a connection may take to become ready before it counts as failed
+}
+
+export interface ConnectionTarget {
+  guildId: string;
+  channelId: string;
+  selfDeaf: boolean;
+  selfMute: boolean;
+  adapterCreator: DiscordGatewayAdapterCreator;
+  group?: string; // @discordjs/voice keeps one connection per guild per group; each bot needs its own
+}
+
+// Voice WebSocket close code for "you were disconnected": kicked, channel deleted or moved to another channel
+const CLOSE_CODE_DISCONNECTED = 4014;
+
+/**
+ * Keeps one call's voice connection alive. The connection is resumed in place
+ * (`rejoin`) whenever possible, so the player subscription and receiver carry
+ * over; a new connection is only made when the old one was destroyed under us.
+ * Failed attempts back off exponentially with jitter.
+ *
+ * Events:
+ * - `connection` (VoiceConnection): a new connection object; attach receivers and subscriptions to it
+ * - `state` (ConnectionStateChange): every transition of the current connection
+ * - `ready` (reconnected: boolean)
+ * - `reconnecting` (ReconnectAttempt)
+ * - `moved` (channelId): the bot was moved to another channel, by `moveTo` or by someone else
+ * - `closed` (ConnectionCloseReason): gave up; the connection is destroyed
+ */
+export class ConnectionManager extends EventEmitter {
+  private current: VoiceConnection | null = null;
+  private recovering = false;
+  private closed = false;
+  private everReady = false;
+  private lastCloseCode: number | undefined;
+  private wake: (() => void) | null = null;
+
+  constructor(private target: ConnectionTarget, private options: ReconnectOptions, private logger: Logger) {
+    super();
+  }
+
+  get connection(): VoiceConnection | null {
+    return this.current;
+  }
+
+  get channelId(): string {
+    return this.target.channelId;
+  }
+
+  get state(): ConnectionState {
+    return this.current?.state.status ?? VoiceConnectionStatus.Destroyed;
+  }
+
+  connect(): VoiceConnection {
+    const connection = this.open();
+    this.recover();
+    return connection;
+  }
+
+  moveTo(channelId: string) {
+    if (!this.current || channelId === this.target.channelId) return;
+    this.target = { ...this.target, channelId };
+    this.current.rejoin({ channelId, selfDeaf: this.target.selfDeaf, selfMute: this.target.selfMute });
+    this.emit('moved', channelId);
+  }
+
+  destroy() {
+    this.closed = true;
+    this.wake?.();
+    const connection = this.current;
+    if (connection && connection.state.status !== VoiceConnectionStatus.Destroyed) connection.destroy();
+  }
+
+  private open(): VoiceConnection {
+    const connection = joinVoiceChannel({
+      guildId: this.target.guildId,
+      channelId: this.target.channelId,
+      adapterCreator: this.target.adapterCreator,
+      selfDeaf: this.target.selfDeaf,
+      selfMute: this.target.selfMute,
+      group: this.target.group,
+    });
+    this.current = connection;
+
+    // Hardening: Listeners belong to this connection object; events from a replaced one are ignored
+    connection.on('stateChange', (oldState, newState) => {
+      if (this.current !== connection || oldState.status === newState.status) return;
+      this.handleStateChange(connection, oldState, newState);
+    });
+    connection.on('error', (error) => {
+      this.logger.warn(`Voice connection error in guild ${this.target.guildId}`, { error: error.message });
+    });
+
+    this.emit('connection', connection);
+    return connection;
+  }
+
+  private handleStateChange(connection: VoiceConnection, oldState: VoiceConnectionState, newState: VoiceConnectionState) {
+    const closeCode = newState.status === VoiceConnectionStatus.Disconnected && newState.reason === VoiceConnectionDisconnectReason.WebSocketClose
+      ? newState.closeCode
+      : undefined;
+    if (newState.status === VoiceConnectionStatus.Disconnected) this.lastCloseCode = closeCode;
+
+    this.logger.debug(`Connection state change: ${oldState.status} -> ${newState.status}`);
+    this.emit('state', { from: oldState.status, to: newState.status, ...(closeCode !== undefined ? { closeCode } : {}) });
+
+    if (newState.status === VoiceConnectionStatus.Ready) {
+      // Moved by someone else: Discord hands us a session in the new channel
+      const channelId = connection.joinConfig.channelId;
+      if (channelId && channelId !== this.target.channelId) {
+        this.target = { ...this.target, channelId };
+        this.emit('moved', channelId);
+      }
+      this.emit('ready', this.everReady);
+      this.everReady = true;
+      this.lastCloseCode = undefined;
+    } else if (!this.closed) {
+      this.recover();
+    }
+  }
+
+  // Waits for the connection to become ready again, retrying with backoff when it doesn't
+  private async recover() {
+    if (this.recovering || this.closed) return;
+    this.recovering = true;
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const connection = this.current;
+        if (!connection) return;
+
+        // The library resumes on its own after most drops, and a channel move looks like a drop at first
+        if (connection.state.status !== VoiceConnectionStatus.Destroyed) {
+          try {
+            await entersState(connection, VoiceConnectionStatus.Ready, this.options.readyTimeoutMs);
+            return;
+          } catch {
+            // Not ready in time; fall through to another attempt
+          }
+        }
+        if (this.closed || this.current !== connection) return;
+
+        // 4014 with no new session after it: kicked, or the channel was deleted. Don't force our way back in.
+        if (connection.state.status === VoiceConnectionStatus.Disconnected && this.lastCloseCode === CLOSE_CODE_DISCONNECTED) {
+          this.close('kicked');
+          return;
+        }
+
+        if (attempt >= this.options.maxAttempts) {
+          this.close('retries-exhausted');
+          return;
+        }
+
+        const delayMs = backoffDelay(attempt + 1, this.options);
+        this.logger.warn(`Voice connection in guild ${this.target.guildId} not ready; retrying in ${delayMs}ms (attempt ${attempt + 1}/${this.options.maxAttempts})`);
+        this.emit('reconnecting', { attempt: attempt + 1, maxAttempts: this.options.maxAttempts, delayMs });
+        await this.sleep(delayMs);
+        if (this.closed || this.current !== connection) return;
+
+        if (connection.state.status === VoiceConnectionStatus.Destroyed) {
+          this.open();
+        } else if (connection.state.status !== VoiceConnectionStatus.Ready) {
+          connection.rejoin({ channelId: this.target.channelId, selfDeaf: this.target.selfDeaf, selfMute: this.target.selfMute });
+        }
+      }
+    } finally {
+      this.recovering = false;
+    }
+  }
+
+  private close(reason: ConnectionCloseReason) {
+    this.logger.warn(`Giving up on voice connection in guild ${this.target.guildId}: ${reason}`);
+    this.destroy();
+    this.emit('closed', reason);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.wake = null;
+        resolve();
+      }, ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        this.wake = null;
+        resolve();
+      };
+    });
+  }
+}
+
+// "Full jitter": uniformly random up to the exponential cap, so calls dropped together don't retry in lockstep
+export function backoffDelay(attempt: number, options: Pick<ReconnectOptions, 'baseDelayMs' | 'maxDelayMs'>): number {
+  const cap = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * cap);
+}
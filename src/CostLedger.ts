@@ -0,0 +1,195 @@
+import { UsageReport } from './Backends.js';
+import { Logger } from './VoiceConversation.js';
+import { JsonFile } from './JsonFile.js';
+
+export interface UsageTotals {
+  asrMinutes: number;
+  chatInputTokens: number;
+  chatOutputTokens: number;
+  ttsCharacters: number;
+  costUsd: number;
+}
+
+export interface UsageRecord extends UsageTotals {
+  month: string; // YYYY-MM (UTC)
+  guildId: string;
+  userId: string;
+}
+
+export interface UsageQuery {
+  month?: string; // defaults to all months
+  guildId?: string;
+  userId?: string;
+}
+
+export interface CostLimits {
+  monthly?: number; // USD across every guild
+  perGuild?: number; // USD per guild per month
+  perUser?: number; // USD per user per guild per month
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  scope?: 'global' | 'guild' | 'user';
+  spentUsd?: number;
+  limitUsd?: number;
+}
+
+export interface CostLedgerOptions {
+  filePath?: string; // JSON file the ledger is persisted to; in-memory only when omitted
+  limits?: CostLimits;
+  costEstimates?: Record<string, CostEstimate>; // merged over the built-in price table
+  flushDelayMs?: number;
+}
+
+// chat models: USD per 1M input/output tokens; ASR: USD per minute; TTS: USD per 1K characters
+export type CostEstimate = { input: number; output: number } | number;
+
+// Hardening: Estimate and track costs
+export const COST_ESTIMATES: Record<string, CostEstimate> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.60 }, // per 1M tokens
+  'whisper-1': 0.006, // per minute
+  'gpt-4o-mini-tts': 0.003, // per 1K characters
+};
+
+interface LedgerFile {
+  version: 1;
+  months: Record<string, Record<string, Record<string, UsageTotals>>>; // month -> guild -> user
+}
+
+/**
+ * Records what each user and guild spends on ASR, chat and TTS per month and
+ * enforces the configured budgets. Persisted as JSON so limits survive restarts.
+ */
+export class CostLedger {
+  private data: LedgerFile = { version: 1, months: {} };
+  private file: JsonFile<LedgerFile>;
+  private estimates: Record<string, CostEstimate>;
+  private unknownModels: Set<string> = new Set();
+
+  constructor(private options: CostLedgerOptions, private logger: Logger) {
+    this.estimates = { ...COST_ESTIMATES, ...options.costEstimates };
+    this.file = new JsonFile(options, 'cost ledger', logger, () => this.data);
+    this.load();
+  }
+
+  private load() {
+    const parsed = this.file.read() as Partial<LedgerFile> | undefined;
+    if (parsed === undefined) return;
+    if (parsed?.version === 1 && parsed.months && typeof parsed.months === 'object') {
+      this.data = parsed as LedgerFile;
+    } else {
+      this.logger.warn('Cost ledger file has an unknown format; starting a new ledger');
+    }
+  }
+
+  estimateCost(usage: UsageReport): number {
+    const estimate = this.estimates[usage.model];
+    if (estimate === undefined) {
+      if (!this.unknownModels.has(usage.model)) {
+        this.unknownModels.add(usage.model);
+        this.logger.warn(`No cost estimate for model ${usage.model}; usage is recorded at $0`);
+      }
+      return 0;
+    }
+
+    switch (usage.kind) {
+      case 'asr':
+        return typeof estimate === 'number' ? estimate * usage.minutes : 0;
+      case 'chat':
+        return typeof estimate === 'number'
+          ? 0
+          : (estimate.input * usage.inputTokens + estimate.output * usage.outputTokens) / 1_000_000;
+      case 'tts':
+        return typeof estimate === 'number' ? estimate * usage.characters / 1000 : 0;
+    }
+  }
+
+  record(guildId: string, userId: string, usage: UsageReport, at: Date = new Date()): number {
+    const cost = this.estimateCost(usage);
+    const totals = this.totalsFor(monthKey(at), guildId, userId);
+
+    switch (usage.kind) {
+      case 'asr':
+        totals.asrMinutes += usage.minutes;
+        break;
+      case 'chat':
+        totals.chatInputTokens += usage.inputTokens;
+        totals.chatOutputTokens += usage.outputTokens;
+        break;
+      case 'tts':
+        totals.ttsCharacters += usage.characters;
+        break;
+    }
+    totals.costUsd += cost;
+
+    this.file.scheduleFlush();
+    return cost;
+  }
+
+  checkBudget(guildId: string, userId: string, at: Date = new Date()): BudgetCheck {
+    const month = monthKey(at);
+    const { monthly, perGuild, perUser } = this.options.limits ?? {};
+
+    const checks: Array<[BudgetCheck['scope'], number | undefined, UsageQuery]> = [
+      ['user', perUser, { month, guildId, userId }],
+      ['guild', perGuild, { month, guildId }],
+      ['global', monthly, { month }],
+    ];
+
+    for (const [scope, limitUsd, query] of checks) {
+      if (limitUsd === undefined || limitUsd === null) continue;
+      const spentUsd = this.getUsage(query).costUsd;
+      if (spentUsd >= limitUsd) {
+        return { allowed: false, scope, spentUsd, limitUsd };
+      }
+    }
+    return { allowed: true };
+  }
+
+  getUsage(query: UsageQuery = {}): UsageTotals {
+    const total = emptyTotals();
+    for (const record of this.getReport(query)) {
+      total.asrMinutes += record.asrMinutes;
+      total.chatInputTokens += record.chatInputTokens;
+      total.chatOutputTokens += record.chatOutputTokens;
+      total.ttsCharacters += record.ttsCharacters;
+      total.costUsd += record.costUsd;
+    }
+    return total;
+  }
+
+  // One record per month / guild / user matching the query
+  getReport(query: UsageQuery = {}): UsageRecord[] {
+    const records: UsageRecord[] = [];
+    for (const [month, guilds] of Object.entries(this.data.months)) {
+      if (query.month && query.month !== month) continue;
+      for (const [guildId, users] of Object.entries(guilds)) {
+        if (query.guildId && query.guildId !== guildId) continue;
+        for (const [userId, totals] of Object.entries(users)) {
+          if (query.userId && query.userId !== userId) continue;
+          records.push({ month, guildId, userId, ...totals });
+        }
+      }
+    }
+    return records;
+  }
+
+  flush(): Promise<void> {
+    return this.file.flush();
+  }
+
+  private totalsFor(month: string, guildId: string, userId: string): UsageTotals {
+    const guilds = (this.data.months[month] ??= {});
+    const users = (guilds[guildId] ??= {});
+    return (users[userId] ??= emptyTotals());
+  }
+}
+
+export function monthKey(at: Date = new Date()): string {
+  return `${at.getUTCFullYear()}-${String(at.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+function emptyTotals(): UsageTotals {
+  return { asrMinutes: 0, chatInputTokens: 0, chatOutputTokens: 0, ttsCharacters: 0, costUsd: 0 };
+}
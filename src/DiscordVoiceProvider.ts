@@ -1,38 +1,111 @@
-import { Client, GatewayIntentBits } from 'discord.js';
+import { Client } from 'discord.js';
 import { DiscordCall } from './DiscordCall.js';
 import { CallProvider, CallParams, CallSession, PluginContext } from './types.js';
+import { BackendRegistry, createDefaultBackendRegistry } from './Backends.js';
+import { closeAudioDecoder } from './VoiceConversation.js';
+import { CostLedger, UsageQuery, UsageRecord, UsageTotals } from './CostLedger.js';
+import { RateLimiter, rateLimitConfigFrom } from './RateLimiter.js';
+import { VoiceCommandHandler, buildVoiceCommand } from './SlashCommands.js';
+import { PresenceManager } from './PresenceManager.js';
+import { ToolRegistry, createDefaultToolRegistry } from './VoiceTools.js';
+import { MemoryStore } from './ConversationMemory.js';
+import { BotPool, PoolBot, botTokensFrom } from './BotPool.js';
+import { MetricFamily, VoiceMetrics, startMetricsServer } from './Metrics.js';
+import { ConfigCheck, ConfigError, validateConfig } from './CallConfig.js';
+import { VoiceProfileStore } from './VoiceProfiles.js';
+import { Server } from 'http';
+import { resolve } from 'path';
 
 export class DiscordVoiceProvider implements CallProvider {
   public id = 'discord-voice';
-  private client: Client;
+  // Hosts can register extra ASR / chat / TTS implementations here before starting calls
+  public readonly backends: BackendRegistry = createDefaultBackendRegistry();
+  // Tools the assistant may call; register more here, or unregister the built-in ones
+  public readonly tools: ToolRegistry = createDefaultToolRegistry();
+  public readonly costLedger: CostLedger;
+  // Pipeline latency, drops and API errors across every call; also served on `metrics_port` when set
+  public readonly metrics: VoiceMetrics = new VoiceMetrics();
+  // Per-user and per-role language, voice, speed, pronunciations and persona; edited with `/voice profile`
+  public readonly profiles: VoiceProfileStore;
+  private metricsServer: Server | null = null;
+  private memoryStore: MemoryStore | undefined;
+  private rateLimiter: RateLimiter;
+  private commands: VoiceCommandHandler;
+  private presence: PresenceManager;
+  private pool: BotPool;
+  private client: Client; // the primary bot: slash commands and presence
   private calls: Map<string, DiscordCall> = new Map();
+  private callBots: Map<string, PoolBot> = new Map(); // call id -> the bot it runs on
   private ready = false;
 
   constructor(private context: PluginContext) {
+    // Hardening: Refuse to start on an invalid configuration instead of quietly falling back to defaults
+    const check = validateConfig(context.config);
+    check.warnings.forEach((warning) => context.logger.warn(warning));
+    if (check.errors.length > 0) {
+      throw new ConfigError(check.errors);
+    }
+
     // Hardening: Support environment variables for tokens
-    const token = process.env.DISCORD_TOKEN || context.config.get('discord_token');
-
-    this.client = new Client({
-      intents: [
-        GatewayIntentBits.Guilds,
-        GatewayIntentBits.GuildVoiceStates,
-        GatewayIntentBits.GuildMessages
-      ]
-    });
+    const tokens = botTokensFrom(context.config);
+
+    this.costLedger = new CostLedger({
+      filePath: resolve(context.config.get('cost_ledger_path') ?? 'discord-voice-usage.json'),
+      limits: {
+        monthly: context.config.get('monthly_cost_limit') ?? 50,
+        perGuild: context.config.get('monthly_guild_cost_limit'),
+        perUser: context.config.get('monthly_user_cost_limit'),
+      },
+      costEstimates: context.config.get('cost_estimates'),
+    }, context.logger);
+    if (context.config.get('memory_persist')) {
+      this.memoryStore = new MemoryStore({
+        filePath: resolve(context.config.get('memory_path') ?? 'discord-voice-memory.json'),
+      }, context.logger);
+    }
+    this.profiles = new VoiceProfileStore({
+      filePath: resolve(context.config.get('voice_profiles_path') ?? 'discord-voice-profiles.json'),
+    }, context.logger);
+    this.rateLimiter = new RateLimiter(rateLimitConfigFrom(context.config));
+    this.commands = new VoiceCommandHandler(this, {
+      controlRoleIds: context.config.get('voice_control_role_ids') ?? [],
+      adminRoleIds: context.config.get('voice_admin_role_ids') ?? [],
+    }, context.logger);
+
+    this.pool = new BotPool(tokens, context.logger);
+    this.client = this.pool.primary;
+
+    this.metrics.onCollect(() => this.metrics.activeCalls.set({ provider: this.id }, this.listCalls().length));
+    const metricsPort = context.config.get('metrics_port');
+    if (metricsPort !== undefined && metricsPort !== null) {
+      this.metricsServer = startMetricsServer(this.metrics, {
+        port: metricsPort,
+        // Hardening: Only reachable from this machine unless explicitly opened up
+        host: context.config.get('metrics_host') ?? '127.0.0.1',
+        path: context.config.get('metrics_path') ?? '/metrics',
+      }, context.logger);
+    }
+
+    this.presence = new PresenceManager(this.client, this, context);
+    context.config.onChange?.(() => this.reloadConfig());
 
     this.client.on('ready', () => {
       this.ready = true;
+      this.presence.start();
       this.context.logger.info(`Discord Voice Provider ready. Logged in as ${this.client.user?.tag}`);
+      if (this.context.config.get('slash_commands') ?? true) {
+        this.registerCommands();
+      }
     });
 
-    this.client.on('error', (err) => {
-      this.context.logger.error('Discord Client Error', { error: err.message });
+    this.client.on('interactionCreate', (interaction) => {
+      if (interaction.isChatInputCommand() && interaction.commandName === 'voice') {
+        this.commands.handle(interaction);
+      }
     });
 
-    if (token) {
-      this.client.login(token).catch(err => {
-        this.context.logger.error('Failed to login to Discord', { error: err.message });
-      });
+    if (tokens.length > 0) {
+      this.pool.login();
     } else {
       this.context.logger.warn('No discord_token found in config or DISCORD_TOKEN env var. Voice provider will not work until configured.');
     }
@@ -40,52 +113,142 @@ export class DiscordVoiceProvider implements CallProvider {
 
   async startCall(params: CallParams): Promise<CallSession> {
     if (!this.ready) {
-      if (!this.client.token) {
+      if (this.pool.size === 0) {
         throw new Error('Discord token not configured');
       }
       throw new Error('Discord client not connected yet');
     }
 
     // Hardening: Check for existing call in the same channel
-    const existingCall = Array.from(this.calls.values()).find(
-      call => call.status === 'connected' &&
-        (call as any).params.channelId === params.channelId
-    );
+    const existingCall = this.getCallsForGuild(params.guildId).find((call) => call.channelId === params.channelId);
     if (existingCall) {
       this.context.logger.info('Call already exists in channel, returning existing');
       return existingCall;
     }
 
-    const call = new DiscordCall(this.client, params, this.context);
+    // A bot is free again as soon as its call stops being live; throws BotPoolExhaustedError when none is
+    const busy = new Set(this.getCallsForGuild(params.guildId).map((call) => this.callBots.get(call.id)!.index));
+    const bot = this.pool.pick(params.guildId, busy);
+    const call = new DiscordCall(bot.client, params, this.context, {
+      backends: this.backends,
+      costLedger: this.costLedger,
+      rateLimiter: this.rateLimiter,
+      tools: this.tools,
+      memoryStore: this.memoryStore,
+      metrics: this.metrics,
+      profiles: this.profiles,
+    });
     this.calls.set(call.id, call);
+    this.callBots.set(call.id, bot);
+    this.context.logger.info(`Call ${call.id} runs on bot ${bot.index} (${bot.client.user?.tag})`);
 
     call.on('status', (status) => {
       if (status === 'disconnected') {
         this.calls.delete(call.id);
+        this.callBots.delete(call.id);
       }
     });
 
     return call;
   }
 
+  // Live calls in a guild; one per pool bot at most
+  getCallsForGuild(guildId: string): DiscordCall[] {
+    return Array.from(this.calls.values()).filter(
+      call => call.guildId === guildId && call.status !== 'disconnected'
+    );
+  }
+
+  // The guild's first live call; with a bot pool there may be others (see getCallsForGuild)
+  getCallForGuild(guildId: string): DiscordCall | undefined {
+    return this.getCallsForGuild(guildId)[0];
+  }
+
+  listCalls(): DiscordCall[] {
+    return Array.from(this.calls.values()).filter((call) => call.status !== 'disconnected');
+  }
+
+  // Guild commands show up immediately; global ones can take up to an hour to propagate
+  private async registerCommands() {
+    const command = buildVoiceCommand();
+    const guildIds: string[] = this.context.config.get('slash_command_guild_ids') ?? [];
+    try {
+      if (guildIds.length > 0) {
+        await Promise.all(guildIds.map((guildId) => this.client.application?.commands.create(command, guildId)));
+      } else {
+        await this.client.application?.commands.create(command);
+      }
+      this.context.logger.info('Registered /voice slash command');
+    } catch (error) {
+      this.context.logger.error('Failed to register slash commands', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
   async endCall(callId: string): Promise<void> {
     const call = this.calls.get(callId);
     if (call) {
       await call.end();
       this.calls.delete(callId);
+      this.callBots.delete(callId);
     }
   }
 
+  // Checks the configuration again and applies it to every live call. An invalid configuration is
+  // rejected as a whole and the calls keep their current settings. Provider-wide options (tokens,
+  // backends, cost and rate limits, metrics) are only read at startup.
+  reloadConfig(): ConfigCheck {
+    const check = validateConfig(this.context.config);
+    check.warnings.forEach((warning) => this.context.logger.warn(warning));
+    if (check.errors.length > 0) {
+      this.context.logger.error(new ConfigError(check.errors).message);
+      return check;
+    }
+
+    const calls = this.listCalls();
+    calls.forEach((call) => call.reloadConfig());
+    this.context.logger.info(`Configuration reloaded for ${calls.length} call(s)`);
+    return check;
+  }
+
+  // Usage report: totals for the query, plus one record per month / guild / user
+  getUsage(query: UsageQuery = {}): { totals: UsageTotals; records: UsageRecord[] } {
+    return {
+      totals: this.costLedger.getUsage(query),
+      records: this.costLedger.getReport(query),
+    };
+  }
+
+  // Current values of every metric, as served by the metrics endpoint
+  getMetrics(): MetricFamily[] {
+    return this.metrics.collect();
+  }
+
+  // What the assistant remembers about a user in a guild, or the guild's channel conversation when `userId` is omitted
+  getMemory(guildId: string, userId?: string): string | undefined {
+    const live = this.getCallsForGuild(guildId).map((call) => call.getMemorySummary(userId)).find(Boolean);
+    return live || this.memoryStore?.get(guildId, userId)?.summary;
+  }
+
+  // Erases one user's memory in a guild, or everything remembered in the guild when `userId` is omitted
+  eraseMemory(guildId: string, userId?: string) {
+    this.memoryStore?.erase(guildId, userId);
+    this.getCallsForGuild(guildId).forEach((call) => call.forgetMemory(userId));
+  }
+
   // Hardening: Cleanup all calls on shutdown
   async shutdown(): Promise<void> {
     this.context.logger.info('Shutting down Discord Voice Provider');
+    this.presence.stop();
     const callIds = Array.from(this.calls.keys());
     for (const callId of callIds) {
       await this.endCall(callId);
     }
-    if (this.client) {
-      this.client.destroy();
-    }
+    this.pool.destroy();
+    this.metricsServer?.close();
+    await this.costLedger.flush();
+    await this.memoryStore?.flush();
+    await this.profiles.flush();
+    closeAudioDecoder();
   }
 }
 
@@ -94,3 +257,4 @@ export default DiscordVoiceProvider;
 export * from './types.js';
 export * from './DiscordCall.js';
 export * from './VoiceConversation.js';
+export * from './Backends.js';
@@ -0,0 +1,68 @@
+import { readFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { Logger } from './VoiceConversation.js';
+
+export interface JsonFileOptions {
+  filePath?: string; // in-memory only when omitted: nothing is read or written
+  flushDelayMs?: number; // how long changes are batched before they are written
+}
+
+/**
+ * Persistence for the stores that keep a JSON document in memory (cost ledger,
+ * conversation memory, voice profiles). The store owns the data and says when it
+ * changed; writes are debounced, serialized and atomic.
+ */
+export class JsonFile<T> {
+  private flushTimer: NodeJS.Timeout | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  // `label` names the data in log messages; `snapshot` returns what to write
+  constructor(private options: JsonFileOptions, private label: string, private logger: Logger, private snapshot: () => T) {}
+
+  // The parsed file, or undefined when there is none or it can't be read; the caller checks its shape
+  read(): unknown {
+    if (!this.options.filePath) return undefined;
+    try {
+      return JSON.parse(readFileSync(this.options.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.error(`Failed to load ${this.label}`, { error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+      return undefined;
+    }
+  }
+
+  // Called after every change; the file is written once changes settle
+  scheduleFlush() {
+    if (this.flushTimer || !this.options.filePath) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, this.options.flushDelayMs ?? 2000);
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.options.filePath) return;
+
+    const filePath = this.options.filePath;
+    const snapshot = JSON.stringify(this.snapshot(), null, 2);
+
+    // Serialize writes; write-then-rename so a crash never leaves a truncated file
+    this.writing = this.writing.then(async () => {
+      try {
+        await mkdir(dirname(filePath), { recursive: true });
+        const tmpPath = `${filePath}.tmp`;
+        await writeFile(tmpPath, snapshot, 'utf8');
+        await rename(tmpPath, filePath);
+      } catch (error) {
+        this.logger.error(`Failed to persist ${this.label}`, { error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    });
+    return this.writing;
+  }
+}
@@ -0,0 +1,194 @@
+import { AddressInfo } from 'net';
+import { Server, createServer } from 'http';
+import { Logger } from './VoiceConversation.js';
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+export interface HistogramSample {
+  labels: MetricLabels;
+  count: number;
+  sum: number;
+  buckets: Array<{ le: number; count: number }>; // cumulative, like Prometheus `le` buckets
+}
+
+export type MetricFamily =
+  | { name: string; help: string; type: 'counter' | 'gauge'; samples: MetricSample[] }
+  | { name: string; help: string; type: 'histogram'; samples: HistogramSample[] };
+
+// Seconds; spans a VAD frame up to a slow chat completion
+export const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+// Label sets are keyed by their values in name order, so `{a, b}` and `{b, a}` are the same series
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((name) => [name, labels[name]]));
+}
+
+export class Counter {
+  private series: Map<string, MetricSample> = new Map();
+
+  constructor(public readonly name: string, public readonly help: string) {}
+
+  inc(labels: MetricLabels = {}, value: number = 1) {
+    const key = seriesKey(labels);
+    const sample = this.series.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.series.set(key, { labels: { ...labels }, value });
+    }
+  }
+
+  collect(): MetricFamily {
+    return { name: this.name, help: this.help, type: 'counter', samples: Array.from(this.series.values(), copySample) };
+  }
+}
+
+export class Gauge {
+  private series: Map<string, MetricSample> = new Map();
+
+  constructor(public readonly name: string, public readonly help: string) {}
+
+  set(labels: MetricLabels, value: number) {
+    this.series.set(seriesKey(labels), { labels: { ...labels }, value });
+  }
+
+  collect(): MetricFamily {
+    return { name: this.name, help: this.help, type: 'gauge', samples: Array.from(this.series.values(), copySample) };
+  }
+}
+
+export class Histogram {
+  private series: Map<string, { labels: MetricLabels; count: number; sum: number; counts: number[] }> = new Map();
+
+  constructor(public readonly name: string, public readonly help: string, private buckets: number[] = LATENCY_BUCKETS) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number) {
+    const key = seriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: { ...labels }, count: 0, sum: 0, counts: this.buckets.map(() => 0) };
+      this.series.set(key, series);
+    }
+    series.count++;
+    series.sum += value;
+    const index = this.buckets.findIndex((le) => value <= le);
+    if (index !== -1) series.counts[index]++;
+  }
+
+  collect(): MetricFamily {
+    const samples = Array.from(this.series.values(), (series) => {
+      let cumulative = 0;
+      return {
+        labels: { ...series.labels },
+        count: series.count,
+        sum: series.sum,
+        buckets: this.buckets.map((le, i) => ({ le, count: (cumulative += series.counts[i]) })),
+      };
+    });
+    return { name: this.name, help: this.help, type: 'histogram', samples };
+  }
+}
+
+function copySample(sample: MetricSample): MetricSample {
+  return { labels: { ...sample.labels }, value: sample.value };
+}
+
+/**
+ * Counters, gauges and histograms for the voice pipeline, shared by every call of
+ * a provider. Values are kept in memory only; read them with `collect()` or
+ * scrape `render()` (Prometheus text format) from the metrics endpoint.
+ */
+export class VoiceMetrics {
+  // Per stage of a turn: vad (end of speech until the utterance was cut), queue, resample, asr,
+  // chat_first_token, chat, tts and decode
+  readonly stageLatency = new Histogram('discord_voice_stage_duration_seconds', 'Time spent in each stage of the voice pipeline');
+  // phase first_audio: utterance cut until its first reply audio is queued; turn: until all of it is queued
+  readonly turnLatency = new Histogram('discord_voice_turn_duration_seconds', 'End-to-end latency of a conversation turn');
+  readonly apiLatency = new Histogram('discord_voice_api_request_duration_seconds', 'Time until a speech or chat API responded');
+  readonly apiErrors = new Counter('discord_voice_api_errors_total', 'Failed speech and chat API requests, by HTTP status (or network)');
+  readonly droppedUtterances = new Counter('discord_voice_dropped_utterances_total', 'Utterances dropped before they were processed');
+  readonly rateLimited = new Counter('discord_voice_rate_limited_total', 'Utterances throttled by the rate limiter');
+  readonly moderationIncidents = new Counter('discord_voice_moderation_incidents_total', 'Transcripts and replies flagged by moderation, by source and whether they were blocked');
+  readonly activeCalls = new Gauge('discord_voice_active_calls', 'Calls currently live');
+
+  private collectors: Array<() => void> = [];
+
+  // Called before every read, e.g. to refresh gauges that are cheaper to compute than to track
+  onCollect(collector: () => void) {
+    this.collectors.push(collector);
+  }
+
+  collect(): MetricFamily[] {
+    this.collectors.forEach((collector) => collector());
+    return [
+      this.stageLatency, this.turnLatency, this.apiLatency,
+      this.apiErrors, this.droppedUtterances, this.rateLimited, this.moderationIncidents, this.activeCalls,
+    ].map((metric) => metric.collect());
+  }
+
+  render(): string {
+    return renderPrometheus(this.collect());
+  }
+}
+
+export function renderPrometheus(families: MetricFamily[]): string {
+  const lines: string[] = [];
+  for (const family of families) {
+    lines.push(`# HELP ${family.name} ${family.help}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    if (family.type === 'histogram') {
+      for (const sample of family.samples) {
+        for (const bucket of sample.buckets) {
+          lines.push(`${family.name}_bucket${formatLabels({ ...sample.labels, le: String(bucket.le) })} ${bucket.count}`);
+        }
+        lines.push(`${family.name}_bucket${formatLabels({ ...sample.labels, le: '+Inf' })} ${sample.count}`);
+        lines.push(`${family.name}_sum${formatLabels(sample.labels)} ${sample.sum}`);
+        lines.push(`${family.name}_count${formatLabels(sample.labels)} ${sample.count}`);
+      }
+    } else {
+      for (const sample of family.samples) {
+        lines.push(`${family.name}${formatLabels(sample.labels)} ${sample.value}`);
+      }
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+export interface MetricsServerOptions {
+  port: number;
+  host: string;
+  path: string;
+}
+
+// Serves `render()` over plain HTTP for a Prometheus scraper; nothing else is exposed
+export function startMetricsServer(metrics: VoiceMetrics, options: MetricsServerOptions, logger: Logger): Server {
+  const server = createServer((req, res) => {
+    const path = (req.url ?? '/').split('?')[0];
+    if (req.method !== 'GET' || path !== options.path) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+    res.end(metrics.render());
+  });
+
+  server.on('error', (error) => {
+    logger.error('Metrics endpoint failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+  });
+  server.listen(options.port, options.host, () => {
+    logger.info(`Metrics available at http://${options.host}:${(server.address() as AddressInfo).port}${options.path}`);
+  });
+  return server;
+}
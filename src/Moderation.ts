@@ -0,0 +1,93 @@
+import { ModerationClassifier, ModerationVerdict, RequestOptions } from './Backends.js';
+import { Logger } from './VoiceConversation.js';
+import { wholeWordPattern } from './TextPatterns.js';
+
+// refuse: don't answer or speak it; canned: say `cannedResponse` instead; log: record an incident; notify: post to a moderator channel
+export type ModerationAction = 'refuse' | 'canned' | 'log' | 'notify';
+
+// transcript: what a user said; reply: what the bot is about to say
+export type ModerationSource = 'transcript' | 'reply';
+
+export interface ModerationOptions {
+  enabled: boolean;
+  checks: ModerationSource[];
+  actions: ModerationAction[];
+  keywords: string[]; // words or phrases, matched case-insensitively as whole words
+  patterns: string[]; // regular expression sources, matched case-insensitively
+  onError: 'allow' | 'block'; // when the classifier fails: let the text through, or treat it as flagged
+}
+
+export interface ModerationDecision {
+  categories: string[];
+  blocked: boolean; // `refuse` or `canned` is among the actions
+}
+
+/**
+ * Flags words and phrases from a fixed list, and text matching any of a list of
+ * regular expressions. Runs locally, so it costs nothing and adds no latency.
+ */
+export class KeywordClassifier implements ModerationClassifier {
+  private keywords: RegExp | null;
+  private patterns: RegExp[];
+
+  constructor(keywords: string[], patterns: string[]) {
+    const words = keywords.map((keyword) => keyword.trim()).filter(Boolean);
+    this.keywords = words.length > 0 ? wholeWordPattern(words) : null;
+    // Throws on an invalid pattern; the config validation reports those first
+    this.patterns = patterns.map((pattern) => new RegExp(pattern, 'iu'));
+  }
+
+  async classify(text: string): Promise<ModerationVerdict> {
+    const categories: string[] = [];
+    if (this.keywords?.test(text)) categories.push('keyword');
+    if (this.patterns.some((pattern) => pattern.test(text))) categories.push('pattern');
+    return { flagged: categories.length > 0, categories };
+  }
+}
+
+/**
+ * Checks user transcripts and bot replies before anything is done with them. The
+ * local keyword classifier runs first; the API classifier (`moderation_backend`)
+ * is only asked about text the keywords let through.
+ */
+export class Moderator {
+  private keywords: KeywordClassifier;
+
+  constructor(private options: ModerationOptions, private classifier: ModerationClassifier | undefined, private logger: Logger) {
+    this.keywords = new KeywordClassifier(options.keywords, options.patterns);
+  }
+
+  setOptions(options: ModerationOptions) {
+    this.options = options;
+    this.keywords = new KeywordClassifier(options.keywords, options.patterns);
+  }
+
+  checks(source: ModerationSource): boolean {
+    return this.options.enabled && this.options.checks.includes(source);
+  }
+
+  has(action: ModerationAction): boolean {
+    return this.options.actions.includes(action);
+  }
+
+  // What to do about the text, or null when it may be used as it is
+  async review(text: string, source: ModerationSource, options: RequestOptions = {}): Promise<ModerationDecision | null> {
+    if (!this.checks(source) || !text.trim()) return null;
+
+    let verdict = await this.keywords.classify(text);
+    if (!verdict.flagged && this.classifier) {
+      try {
+        verdict = await this.classifier.classify(text, options);
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        this.logger.warn(`Moderation classifier failed; ${this.options.onError === 'block' ? 'blocking' : 'allowing'} the ${source}`, {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        verdict = { flagged: this.options.onError === 'block', categories: ['classifier-error'] };
+      }
+    }
+
+    if (!verdict.flagged) return null;
+    return { categories: verdict.categories, blocked: this.has('refuse') || this.has('canned') };
+  }
+}
@@ -0,0 +1,121 @@
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { ChatMessage } from './Backends.js';
+
+// reply: the assistant answering someone; cue: system announcements and notices; host: `sendAudio`
+export type PlaybackKind = 'reply' | 'cue' | 'host';
+
+export type PlaybackEndReason = 'finished' | 'skipped' | 'cancelled' | 'interrupted' | 'dropped' | 'failed';
+
+// 48k stereo s16le in memory, or a function that opens it as a stream once the item starts playing
+export type PlaybackSource = Buffer | (() => Readable);
+
+export interface PlaybackItem {
+  id: string;
+  kind: PlaybackKind;
+  priority: number; // higher plays first; equal priorities play in order
+  source: PlaybackSource;
+  volume: number; // 0-2
+  enqueuedAt: number;
+  reply?: ChatMessage; // history entry this audio speaks, so barge-in can mark it as cut off
+  replyTo?: string; // user the reply is addressed to, for the activation follow-up window
+}
+
+export interface EnqueueOptions {
+  id?: string;
+  kind?: PlaybackKind;
+  priority?: number;
+  volume?: number;
+  reply?: ChatMessage;
+  replyTo?: string;
+}
+
+export const DEFAULT_PRIORITIES: Record<PlaybackKind, number> = {
+  cue: 20,
+  reply: 10,
+  host: 0,
+};
+
+/**
+ * Audio waiting to be played, ordered by priority. When full, a new item evicts the
+ * oldest item of the lowest priority below its own, or is refused; nothing is
+ * dropped silently.
+ */
+export class PlaybackQueue {
+  private items: PlaybackItem[] = [];
+
+  constructor(private limit: number = 20) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  // A lower limit only applies to new items; nothing already queued is dropped
+  setLimit(limit: number) {
+    this.limit = limit;
+  }
+
+  // Returns the queued item and anything it evicted, or null (with nothing changed) when refused
+  enqueue(source: PlaybackSource, options: EnqueueOptions = {}): { item: PlaybackItem; evicted: PlaybackItem | null } | null {
+    const kind = options.kind ?? 'host';
+    const item: PlaybackItem = {
+      id: options.id ?? randomUUID(),
+      kind,
+      priority: options.priority ?? DEFAULT_PRIORITIES[kind],
+      source,
+      volume: options.volume ?? 1,
+      enqueuedAt: Date.now(),
+      reply: options.reply,
+      replyTo: options.replyTo,
+    };
+
+    let evicted: PlaybackItem | null = null;
+    if (this.items.length >= this.limit) {
+      const victim = this.items[this.items.length - 1];
+      if (!victim || victim.priority >= item.priority) return null;
+      // The tail is the lowest priority; take the oldest of that priority
+      const lowest = this.items.findIndex((queued) => queued.priority === victim.priority);
+      evicted = this.items.splice(lowest, 1)[0];
+    }
+
+    const index = this.items.findIndex((queued) => queued.priority < item.priority);
+    if (index === -1) {
+      this.items.push(item);
+    } else {
+      this.items.splice(index, 0, item);
+    }
+    return { item, evicted };
+  }
+
+  next(): PlaybackItem | undefined {
+    return this.items.shift();
+  }
+
+  peek(): PlaybackItem | undefined {
+    return this.items[0];
+  }
+
+  remove(id: string): PlaybackItem | undefined {
+    const index = this.items.findIndex((item) => item.id === id);
+    return index === -1 ? undefined : this.items.splice(index, 1)[0];
+  }
+
+  // Removes and returns every item matching `filter` (all of them when omitted)
+  clear(filter: (item: PlaybackItem) => boolean = () => true): PlaybackItem[] {
+    const removed = this.items.filter(filter);
+    this.items = this.items.filter((item) => !filter(item));
+    return removed;
+  }
+
+  get(id: string): PlaybackItem | undefined {
+    return this.items.find((item) => item.id === id);
+  }
+
+  list(): PlaybackItem[] {
+    return [...this.items];
+  }
+
+  count(filter: (item: PlaybackItem) => boolean): number {
+    return this.items.filter(filter).length;
+  }
+}
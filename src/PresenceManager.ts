@@ -0,0 +1,168 @@
+import { Client, VoiceState } from 'discord.js';
+import { CallParams, CallSession, PluginContext } from './types.js';
+import { DiscordCall } from './DiscordCall.js';
+import { BotPoolExhaustedError } from './BotPool.js';
+
+export interface PresenceHost {
+  startCall(params: CallParams): Promise<CallSession>;
+  endCall(callId: string): Promise<void>;
+  listCalls(): DiscordCall[];
+}
+
+export interface PresencePolicy {
+  followUserId?: string; // join this user's channel, move with them, leave when they leave voice
+  autoJoinUserIds: string[]; // join a channel when one of these users enters it
+  aloneTimeoutMinutes?: number; // leave after this long with no humans in the channel; off when unset
+  maxCallMinutes?: number; // hard cap on call duration
+  idleTimeoutMinutes?: number; // leave after this long without anyone speaking to (or hearing from) the bot
+}
+
+const SWEEP_INTERVAL_MS = 15_000;
+
+/**
+ * Joins, follows and leaves voice channels on its own according to per-guild
+ * policies. Policies come from `presence` (defaults) merged with
+ * `guild_presence[guildId]`.
+ */
+export class PresenceManager {
+  private aloneSince: Map<string, number> = new Map(); // call id -> first sweep that found no humans
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private client: Client,
+    private host: PresenceHost,
+    private context: PluginContext
+  ) {
+    this.client.on('voiceStateUpdate', (oldState, newState) => {
+      this.handleVoiceStateUpdate(oldState, newState).catch((error) => {
+        this.context.logger.error('Presence update failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+      });
+    });
+  }
+
+  start() {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = null;
+    this.aloneSince.clear();
+  }
+
+  getPolicy(guildId: string): PresencePolicy {
+    const raw = {
+      ...this.context.config.get('presence'),
+      ...this.context.config.get('guild_presence')?.[guildId],
+    };
+    return {
+      followUserId: raw.follow_user_id,
+      autoJoinUserIds: raw.auto_join_user_ids ?? [],
+      aloneTimeoutMinutes: raw.alone_timeout_minutes,
+      maxCallMinutes: raw.max_call_minutes,
+      idleTimeoutMinutes: raw.idle_timeout_minutes,
+    };
+  }
+
+  private async handleVoiceStateUpdate(oldState: VoiceState, newState: VoiceState) {
+    if (newState.id === this.client.user?.id || newState.member?.user.bot) return;
+    if (oldState.channelId === newState.channelId) return; // mute / deafen / stream toggles
+
+    const guildId = newState.guild.id;
+    const policy = this.getPolicy(guildId);
+    // With a bot pool a guild can have several calls; act only on the ones in the channels this user left or entered
+    const left = oldState.channelId ? this.callInChannel(guildId, oldState.channelId) : undefined;
+    const joined = newState.channelId ? this.callInChannel(guildId, newState.channelId) : undefined;
+
+    if (policy.followUserId === newState.id) {
+      if (!newState.channelId) {
+        if (left) {
+          this.context.logger.info(`Followed user ${newState.id} left voice; leaving call ${left.id}`);
+          await this.host.endCall(left.id);
+        }
+      } else if (joined) {
+        // Already in the channel they went to; the call they left keeps whoever is still there
+      } else if (left) {
+        this.context.logger.info(`Following user ${newState.id} to channel ${newState.channelId}`);
+        left.moveTo(newState.channelId);
+      } else {
+        await this.joinChannel(guildId, newState.channelId);
+      }
+      return;
+    }
+
+    if (newState.channelId && !joined && policy.autoJoinUserIds.includes(newState.id)) {
+      this.context.logger.info(`Auto-joining channel ${newState.channelId} for user ${newState.id}`);
+      await this.joinChannel(guildId, newState.channelId);
+    }
+  }
+
+  // The live call in (or, mid-move, still bound to) this channel
+  private callInChannel(guildId: string, channelId: string): DiscordCall | undefined {
+    return this.host.listCalls().find((call) => call.guildId === guildId && call.channelId === channelId);
+  }
+
+  private async joinChannel(guildId: string, channelId: string) {
+    try {
+      await this.host.startCall({ guildId, channelId });
+    } catch (error) {
+      // Every pool bot in the guild is busy with another call; leave those alone
+      if (!(error instanceof BotPoolExhaustedError)) throw error;
+      this.context.logger.info(`Not joining channel ${channelId}: ${error.message}`);
+    }
+  }
+
+  // Enforces alone / idle / max-duration limits for every live call, whichever pool bot runs it
+  private async sweep() {
+    const now = Date.now();
+    const calls = this.host.listCalls();
+    // Calls can end elsewhere (commands, the host, a kick); drop what was tracked for them
+    const live = new Set(calls.map((call) => call.id));
+    for (const callId of this.aloneSince.keys()) {
+      if (!live.has(callId)) this.aloneSince.delete(callId);
+    }
+
+    for (const call of calls) {
+      if (call.status !== 'connected') continue;
+
+      const policy = this.getPolicy(call.guildId);
+      const reason = this.leaveReason(call, policy, now);
+      if (reason) {
+        this.context.logger.info(`Leaving call ${call.id}: ${reason}`);
+        this.aloneSince.delete(call.id);
+        await this.host.endCall(call.id).catch((error) => {
+          this.context.logger.error(`Failed to end call ${call.id}`, { error: error instanceof Error ? error.message : 'Unknown error' });
+        });
+      }
+    }
+  }
+
+  private leaveReason(call: DiscordCall, policy: PresencePolicy, now: number): string | null {
+    if (policy.maxCallMinutes && now - call.startedAt >= policy.maxCallMinutes * 60_000) {
+      return `reached the maximum call duration of ${policy.maxCallMinutes} minutes`;
+    }
+
+    if (policy.idleTimeoutMinutes && now - call.lastActivityAt >= policy.idleTimeoutMinutes * 60_000) {
+      return `idle for ${policy.idleTimeoutMinutes} minutes`;
+    }
+
+    if (policy.aloneTimeoutMinutes) {
+      const channel = call.client.channels.cache.get(call.channelId);
+      // A channel missing from the cache says nothing about who is in it; wait for the next sweep
+      if (!channel?.isVoiceBased()) return null;
+      const humans = channel.members.filter((member) => !member.user.bot).size;
+      if (humans > 0) {
+        this.aloneSince.delete(call.id);
+      } else {
+        const since = this.aloneSince.get(call.id) ?? now;
+        this.aloneSince.set(call.id, since);
+        if (now - since >= policy.aloneTimeoutMinutes * 60_000) {
+          return `alone for ${policy.aloneTimeoutMinutes} minutes`;
+        }
+      }
+    }
+
+    return null;
+  }
+}
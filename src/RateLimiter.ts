@@ -0,0 +1,125 @@
+export interface BucketConfig {
+  capacity: number; // burst size
+  refillPerMinute: number;
+}
+
+export interface RateLimitConfig {
+  user?: BucketConfig; // per user per guild
+  guild?: BucketConfig;
+  global?: BucketConfig;
+}
+
+export type RateLimitScope = 'user' | 'guild' | 'global';
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+  scope?: RateLimitScope; // the bucket that is empty
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(private config: BucketConfig, now: number = Date.now()) {
+    this.tokens = config.capacity;
+    this.updatedAt = now;
+  }
+
+  private refill(now: number) {
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.config.capacity, this.tokens + elapsed * this.config.refillPerMinute / 60_000);
+    this.updatedAt = now;
+  }
+
+  // Milliseconds until `cost` tokens are available; 0 if they are available now
+  waitTime(cost: number = 1, now: number = Date.now()): number {
+    this.refill(now);
+    if (this.tokens >= cost) return 0;
+    if (this.config.refillPerMinute <= 0) return Infinity;
+    return Math.ceil((cost - this.tokens) * 60_000 / this.config.refillPerMinute);
+  }
+
+  take(cost: number = 1, now: number = Date.now()) {
+    this.refill(now);
+    this.tokens -= cost;
+  }
+
+  isFull(now: number = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.config.capacity;
+  }
+}
+
+/**
+ * Token buckets scoped per user, per guild and globally. A request only consumes
+ * tokens when every applicable bucket can pay for it, so a throttled user never
+ * drains the guild or global budget.
+ */
+export class RateLimiter {
+  private buckets: Map<string, TokenBucket> = new Map();
+  private lastPrunedAt = Date.now();
+
+  constructor(private config: RateLimitConfig) {}
+
+  tryAcquire(guildId: string, userId: string, cost: number = 1, now: number = Date.now()): RateLimitDecision {
+    this.prune(now);
+
+    const scoped: Array<[RateLimitScope, string, BucketConfig | undefined]> = [
+      ['user', `user:${guildId}:${userId}`, this.config.user],
+      ['guild', `guild:${guildId}`, this.config.guild],
+      ['global', 'global', this.config.global],
+    ];
+
+    const buckets: TokenBucket[] = [];
+    for (const [scope, key, config] of scoped) {
+      if (!config) continue;
+
+      let bucket = this.buckets.get(key);
+      if (!bucket) {
+        bucket = new TokenBucket(config, now);
+        this.buckets.set(key, bucket);
+      }
+
+      const retryAfterMs = bucket.waitTime(cost, now);
+      if (retryAfterMs > 0) {
+        return { allowed: false, retryAfterMs, scope };
+      }
+      buckets.push(bucket);
+    }
+
+    buckets.forEach((bucket) => bucket.take(cost, now));
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  // Hardening: Drop full buckets now and then so one-off speakers don't accumulate forever
+  private prune(now: number) {
+    if (now - this.lastPrunedAt < 60_000) return;
+    this.lastPrunedAt = now;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.isFull(now)) this.buckets.delete(key);
+    }
+  }
+}
+
+// Reads `rate_limit_<scope>_per_minute` / `rate_limit_<scope>_burst`; a scope without a rate is unlimited
+export function rateLimitConfigFrom(config: { get(key: string): any }): RateLimitConfig {
+  // `rate_limit_ms` predates the token buckets; it still sets the default per-user rate
+  const legacyMs = config.get('rate_limit_ms');
+  const defaults: Record<RateLimitScope, Partial<BucketConfig>> = {
+    user: { capacity: 3, refillPerMinute: legacyMs ? 60_000 / legacyMs : 20 },
+    guild: { capacity: 10, refillPerMinute: 60 },
+    global: {},
+  };
+
+  const result: RateLimitConfig = {};
+  for (const scope of ['user', 'guild', 'global'] as RateLimitScope[]) {
+    const refillPerMinute = config.get(`rate_limit_${scope}_per_minute`) ?? defaults[scope].refillPerMinute;
+    if (!refillPerMinute) continue;
+    result[scope] = {
+      refillPerMinute,
+      capacity: config.get(`rate_limit_${scope}_burst`) ?? defaults[scope].capacity ?? Math.max(1, Math.ceil(refillPerMinute / 6)),
+    };
+  }
+  return result;
+}
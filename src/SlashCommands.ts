@@ -0,0 +1,398 @@
+import {
+  ChannelType,
+  ChatInputCommandInteraction,
+  GuildMember,
+  MessageFlags,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+  SlashCommandRoleOption,
+  SlashCommandStringOption,
+} from 'discord.js';
+import { CallParams, CallSession, PluginContext } from './types.js';
+import { DiscordCall } from './DiscordCall.js';
+import { BotPoolExhaustedError } from './BotPool.js';
+import { PROFILE_LIMITS, ProfileScope, VoiceProfile, VoiceProfileStore, isValidVoiceName, validateProfile } from './VoiceProfiles.js';
+import { CallMode } from './Interpreter.js';
+
+export interface VoiceCommandHost {
+  startCall(params: CallParams): Promise<CallSession>;
+  endCall(callId: string): Promise<void>;
+  getCallsForGuild(guildId: string): DiscordCall[];
+  getMemory(guildId: string, userId?: string): string | undefined;
+  eraseMemory(guildId: string, userId?: string): void;
+  readonly profiles: VoiceProfileStore;
+}
+
+export interface VoiceCommandPermissions {
+  // When non-empty, only members with one of these roles may use /voice at all
+  controlRoleIds: string[];
+  // May change the prompt, in addition to members with Manage Server
+  adminRoleIds: string[];
+}
+
+export function buildVoiceCommand() {
+  return new SlashCommandBuilder()
+    .setName('voice')
+    .setDescription('Control the voice assistant')
+    .setDMPermission(false)
+    .addSubcommand((sub) => sub
+      .setName('join')
+      .setDescription('Bring the assistant into a voice channel')
+      .addChannelOption((option) => option
+        .setName('channel')
+        .setDescription('Voice channel to join (defaults to the one you are in)')
+        .addChannelTypes(ChannelType.GuildVoice, ChannelType.GuildStageVoice))
+      .addStringOption((option) => option
+        .setName('mode')
+        .setDescription('Answer questions, or interpret between languages (defaults to the configured mode)')
+        .addChoices({ name: 'assistant', value: 'assistant' }, { name: 'interpreter', value: 'interpreter' })))
+    .addSubcommand((sub) => sub
+      .setName('leave')
+      .setDescription('Make the assistant leave the voice channel'))
+    .addSubcommand((sub) => sub
+      .setName('prompt')
+      .setDescription('Change the assistant prompt for this call')
+      .addStringOption((option) => option
+        .setName('text')
+        .setDescription('New assistant prompt')
+        .setRequired(true)
+        .setMaxLength(2000)))
+    .addSubcommand((sub) => sub
+      .setName('voice')
+      .setDescription('Change the voice the assistant speaks with')
+      .addStringOption((option) => option
+        .setName('name')
+        .setDescription('TTS voice name, or "default"')
+        .setRequired(true)
+        .setMaxLength(50)))
+    .addSubcommand((sub) => sub
+      .setName('mute-bot')
+      .setDescription('Stop or resume spoken replies (the assistant keeps listening)')
+      .addBooleanOption((option) => option
+        .setName('muted')
+        .setDescription('Whether the assistant should stay quiet')
+        .setRequired(true)))
+    .addSubcommand((sub) => sub
+      .setName('talk')
+      .setDescription('Push-to-talk: address everything you say to the assistant')
+      .addBooleanOption((option) => option
+        .setName('enabled')
+        .setDescription('Whether your speech is addressed to the assistant')
+        .setRequired(true)))
+    .addSubcommand((sub) => sub
+      .setName('status')
+      .setDescription('Show the state of the voice assistant in this server'))
+    .addSubcommand((sub) => sub
+      .setName('memory')
+      .setDescription('Show what the assistant remembers from earlier conversations')
+      .addStringOption((option) => memoryScope(option)))
+    .addSubcommand((sub) => sub
+      .setName('forget')
+      .setDescription('Erase what the assistant remembers')
+      .addStringOption((option) => memoryScope(option)))
+    .addSubcommand((sub) => sub
+      .setName('profile')
+      .setDescription('Show or change how the assistant hears and speaks to you')
+      .addStringOption((option) => option
+        .setName('language')
+        .setDescription('Language you speak, e.g. "en", or "default"')
+        .setMaxLength(7))
+      .addStringOption((option) => option
+        .setName('voice')
+        .setDescription('TTS voice for replies to you, or "default"')
+        .setMaxLength(PROFILE_LIMITS.maxVoiceLength))
+      .addNumberOption((option) => option
+        .setName('speed')
+        .setDescription('Speaking speed for replies to you (1 is normal)')
+        .setMinValue(PROFILE_LIMITS.minSpeed)
+        .setMaxValue(PROFILE_LIMITS.maxSpeed))
+      .addStringOption((option) => option
+        .setName('persona')
+        .setDescription('How the assistant should talk to you, or "default"')
+        .setMaxLength(PROFILE_LIMITS.maxPersonaLength))
+      .addBooleanOption((option) => option
+        .setName('reset')
+        .setDescription('Clear the whole profile'))
+      .addRoleOption((option) => profileRole(option)))
+    .addSubcommand((sub) => sub
+      .setName('pronounce')
+      .setDescription('Teach the assistant how to say a name in replies to you')
+      .addStringOption((option) => option
+        .setName('word')
+        .setDescription('Name or word as it is written')
+        .setRequired(true)
+        .setMaxLength(PROFILE_LIMITS.maxWordLength))
+      .addStringOption((option) => option
+        .setName('as')
+        .setDescription('How to say it, spelled out; leave empty to remove')
+        .setMaxLength(PROFILE_LIMITS.maxPronunciationLength))
+      .addRoleOption((option) => profileRole(option)))
+    .toJSON();
+}
+
+function profileRole(option: SlashCommandRoleOption) {
+  return option
+    .setName('role')
+    .setDescription('Edit this role\'s profile instead of yours (server managers only)');
+}
+
+function memoryScope(option: SlashCommandStringOption) {
+  return option
+    .setName('scope')
+    .setDescription('Your own memory (default), or the whole server\'s (server managers only)')
+    .addChoices({ name: 'me', value: 'me' }, { name: 'server', value: 'server' });
+}
+
+/**
+ * Routes `/voice` interactions to the call in the invoking guild. Every reply is
+ * ephemeral so commands don't clutter the text channel.
+ */
+export class VoiceCommandHandler {
+  constructor(
+    private host: VoiceCommandHost,
+    private permissions: VoiceCommandPermissions,
+    private logger: PluginContext['logger']
+  ) {}
+
+  async handle(interaction: ChatInputCommandInteraction) {
+    try {
+      if (!interaction.inCachedGuild()) {
+        await reply(interaction, 'Voice commands only work inside a server.');
+        return;
+      }
+
+      const member = interaction.member;
+      if (!this.canControl(member)) {
+        await reply(interaction, 'You are not allowed to control the voice assistant.');
+        return;
+      }
+
+      // With several bots in the server, commands act on the call in the member's channel
+      const calls = this.host.getCallsForGuild(interaction.guildId);
+      const call = calls.find((candidate) => candidate.channelId === member.voice.channelId) ?? calls[0];
+      const subcommand = interaction.options.getSubcommand();
+
+      if (subcommand === 'join') {
+        await this.join(interaction, member, calls);
+        return;
+      }
+
+      // Memory lives beyond calls, so these work whether or not the assistant is in a channel
+      if (subcommand === 'memory' || subcommand === 'forget') {
+        await this.memory(interaction, member, subcommand);
+        return;
+      }
+
+      // Profiles are stored, not tied to a call; they apply from the speaker's next utterance
+      if (subcommand === 'profile' || subcommand === 'pronounce') {
+        await this.profile(interaction, member, subcommand);
+        return;
+      }
+
+      if (!call) {
+        await reply(interaction, 'The assistant is not in a voice channel. Use `/voice join` first.');
+        return;
+      }
+
+      // Hardening: Only people in the call (or admins) can steer it
+      if (!this.isAdmin(member) && member.voice.channelId !== call.channelId) {
+        await reply(interaction, `Join <#${call.channelId}> to control the assistant.`);
+        return;
+      }
+
+      switch (subcommand) {
+        case 'leave':
+          // Ending saves the recording, transcripts and memory first, which can outlast Discord's 3 s reply deadline
+          await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+          await this.host.endCall(call.id);
+          await reply(interaction, `Left <#${call.channelId}>.`);
+          break;
+        case 'prompt':
+          if (!this.isAdmin(member)) {
+            await reply(interaction, 'Only server managers can change the assistant prompt.');
+            return;
+          }
+          call.setSystemPrompt(interaction.options.getString('text', true));
+          await reply(interaction, 'Assistant prompt updated for this call.');
+          break;
+        case 'voice': {
+          const name = interaction.options.getString('name', true).trim();
+          if (!isValidVoiceName(name)) {
+            await reply(interaction, 'Voice names may only contain letters, digits, "_" and "-".');
+            return;
+          }
+          call.setTtsVoice(name === 'default' ? undefined : name);
+          await reply(interaction, name === 'default' ? 'Voice reset to the default.' : `Voice set to \`${name}\`.`);
+          break;
+        }
+        case 'mute-bot': {
+          const muted = interaction.options.getBoolean('muted', true);
+          call.setBotMuted(muted);
+          await reply(interaction, muted ? 'The assistant will stay quiet.' : 'The assistant will reply again.');
+          break;
+        }
+        case 'talk': {
+          const enabled = interaction.options.getBoolean('enabled', true);
+          call.setTalkToBot(member.id, enabled);
+          await reply(interaction, enabled ? 'Everything you say now goes to the assistant.' : 'Push-to-talk turned off.');
+          break;
+        }
+        case 'status': {
+          const status = call.getStatus();
+          await reply(interaction, [
+            `**Channel:** <#${status.channelId}> (${status.status})${status.bot ? ` · **Bot:** ${status.bot}` : ''}`,
+            `**Mode:** ${status.mode} · **Replies:** ${status.botMuted ? 'muted' : 'on'} · **Activation:** ${status.activationMode} · **Conversation:** ${status.conversationMode}`,
+            `**Voice:** ${status.ttsVoice ?? 'default'} · **Recording:** ${status.recording ? 'yes' : 'no'}`,
+            `**Queued:** ${status.pendingUtterances} utterance(s), ${status.queuedAudio} audio clip(s), ${status.backgroundTracks} background track(s)${status.playbackPaused ? ' · **Playback:** paused' : ''}`,
+          ].join('\n'));
+          break;
+        }
+        default:
+          await reply(interaction, 'Unknown command.');
+      }
+    } catch (error) {
+      this.logger.error('Voice command failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+      await reply(interaction, 'Something went wrong running that command.').catch(() => undefined);
+    }
+  }
+
+  private async join(interaction: ChatInputCommandInteraction<'cached'>, member: GuildMember, calls: DiscordCall[]) {
+    const channel = interaction.options.getChannel('channel', false, [ChannelType.GuildVoice, ChannelType.GuildStageVoice])
+      ?? member.voice.channel;
+    if (!channel) {
+      await reply(interaction, 'Pick a voice channel or join one first.');
+      return;
+    }
+
+    // Hardening: Members can only bring the bot into channels they could join themselves
+    if (!channel.permissionsFor(member).has(PermissionFlagsBits.Connect)) {
+      await reply(interaction, `You don't have access to <#${channel.id}>.`);
+      return;
+    }
+
+    if (calls.some((call) => call.channelId === channel.id)) {
+      await reply(interaction, `Already in <#${channel.id}>.`);
+      return;
+    }
+
+    // Connecting can take longer than Discord's 3 s reply deadline
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    try {
+      const mode = interaction.options.getString('mode') as CallMode | null;
+      await this.host.startCall({ guildId: interaction.guildId, channelId: channel.id, ...(mode && { mode }) });
+    } catch (error) {
+      if (!(error instanceof BotPoolExhaustedError)) throw error;
+      const message = error.reason === 'all-busy'
+        ? `Every assistant bot in this server is already in a call (${calls.map((call) => `<#${call.channelId}>`).join(', ')}). Use \`/voice leave\` in one of them first.`
+        : error.message;
+      await reply(interaction, message);
+      return;
+    }
+    await reply(interaction, `Joining <#${channel.id}>.`);
+  }
+
+  private async memory(interaction: ChatInputCommandInteraction<'cached'>, member: GuildMember, subcommand: 'memory' | 'forget') {
+    const server = interaction.options.getString('scope') === 'server';
+    // Hardening: The server's memory holds what everyone said, so only managers may read or erase it
+    if (server && !this.isAdmin(member)) {
+      await reply(interaction, 'Only server managers can see or erase the server\'s memory.');
+      return;
+    }
+
+    const userId = server ? undefined : member.id;
+    if (subcommand === 'forget') {
+      this.host.eraseMemory(interaction.guildId, userId);
+      await reply(interaction, server ? 'Erased everything the assistant remembered in this server.' : 'Erased what the assistant remembered about you.');
+      return;
+    }
+
+    const summary = this.host.getMemory(interaction.guildId, userId);
+    if (!summary) {
+      await reply(interaction, server ? 'The assistant doesn\'t remember anything from this server\'s conversations.' : 'The assistant doesn\'t remember anything about you.');
+      return;
+    }
+    await reply(interaction, `**${server ? 'Server memory' : 'What the assistant remembers about you'}:**\n${summary.slice(0, 1800)}`);
+  }
+
+  private async profile(interaction: ChatInputCommandInteraction<'cached'>, member: GuildMember, subcommand: 'profile' | 'pronounce') {
+    const role = interaction.options.getRole('role');
+    // Hardening: A role's profile applies to everyone with the role, so only managers may edit it
+    if (role && !this.isAdmin(member)) {
+      await reply(interaction, 'Only server managers can change a role\'s profile.');
+      return;
+    }
+
+    const scope: ProfileScope = role ? 'role' : 'user';
+    const id = role?.id ?? member.id;
+    const owner = role ? `The ${role.name} role's` : 'Your';
+    const { updatedAt, ...profile }: VoiceProfile & { updatedAt?: string } = this.host.profiles.get(scope, id) ?? {};
+
+    if (subcommand === 'pronounce') {
+      const word = interaction.options.getString('word', true).trim();
+      const spoken = interaction.options.getString('as')?.trim();
+      const lexicon = Object.fromEntries(Object.entries(profile.lexicon ?? {}).filter(([key]) => key.toLowerCase() !== word.toLowerCase()));
+      if (spoken) lexicon[word] = spoken;
+      profile.lexicon = lexicon;
+    } else {
+      if (interaction.options.getBoolean('reset')) {
+        this.host.profiles.delete(scope, id);
+        await reply(interaction, `${owner} voice profile was cleared.`);
+        return;
+      }
+
+      const language = interaction.options.getString('language')?.trim().toLowerCase();
+      const voice = interaction.options.getString('voice')?.trim();
+      const speed = interaction.options.getNumber('speed');
+      const persona = interaction.options.getString('persona')?.trim();
+      if (language === undefined && voice === undefined && speed === null && persona === undefined) {
+        await reply(interaction, `**${owner} voice profile:**\n${describeProfile(profile)}`);
+        return;
+      }
+      if (language !== undefined) profile.language = language === 'default' ? undefined : language;
+      if (voice !== undefined) profile.voice = voice === 'default' ? undefined : voice;
+      if (speed !== null) profile.speed = speed;
+      if (persona !== undefined) profile.persona = persona === 'default' ? undefined : persona;
+    }
+
+    const issues = validateProfile(profile);
+    if (issues.length > 0) {
+      await reply(interaction, `Profile not saved: ${issues.join('; ')}.`);
+      return;
+    }
+    this.host.profiles.set(scope, id, profile);
+    await reply(interaction, `**${owner} voice profile is now:**\n${describeProfile(profile)}`);
+  }
+
+  private canControl(member: GuildMember): boolean {
+    if (this.permissions.controlRoleIds.length === 0 || this.isAdmin(member)) return true;
+    return this.permissions.controlRoleIds.some((roleId) => member.roles.cache.has(roleId));
+  }
+
+  private isAdmin(member: GuildMember): boolean {
+    return member.permissions.has(PermissionFlagsBits.ManageGuild)
+      || this.permissions.adminRoleIds.some((roleId) => member.roles.cache.has(roleId));
+  }
+}
+
+function describeProfile(profile: VoiceProfile): string {
+  const lines = [
+    `**Language:** ${profile.language ?? 'default'} · **Voice:** ${profile.voice ?? 'default'} · **Speed:** ${profile.speed ?? 1}`,
+  ];
+  if (profile.persona) lines.push(`**Persona:** ${profile.persona}`);
+  const pronunciations = Object.entries(profile.lexicon ?? {});
+  if (pronunciations.length > 0) {
+    lines.push(`**Pronunciations:** ${pronunciations.map(([word, spoken]) => `${word} → ${spoken}`).join(', ')}`);
+  }
+  return lines.join('\n').slice(0, 1800);
+}
+
+// Fills in a deferred reply, or follows up on one already sent
+async function reply(interaction: ChatInputCommandInteraction, content: string) {
+  if (interaction.deferred && !interaction.replied) {
+    await interaction.editReply({ content });
+  } else if (interaction.replied) {
+    await interaction.followUp({ content, flags: MessageFlags.Ephemeral });
+  } else {
+    await interaction.reply({ content, flags: MessageFlags.Ephemeral });
+  }
+}
@@ -0,0 +1,9 @@
+// Matches any of `words` as whole words: not inside a longer word, so "Sean" doesn't match "Seance".
+// Case-insensitive; longer words should come first so they win over their prefixes.
+export function wholeWordPattern(words: string[], flags: string = ''): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${words.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, `iu${flags}`);
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
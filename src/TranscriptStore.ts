@@ -0,0 +1,105 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { ReplyEvent, TranscriptEvent } from './types.js';
+
+export type TranscriptFormat = 'jsonl' | 'srt' | 'vtt';
+
+export type TranscriptEntry =
+  | ({ kind: 'transcript' } & TranscriptEvent)
+  | ({ kind: 'reply' } & ReplyEvent);
+
+/**
+ * Keeps every transcript and reply of a call in order so it can be exported as
+ * JSONL (meeting notes) or SRT / WebVTT captions. Caption timestamps are relative
+ * to the start of the call.
+ */
+export class TranscriptStore {
+  private entries: TranscriptEntry[] = [];
+
+  constructor(private callStartedAt: number = Date.now()) {}
+
+  addTranscript(event: TranscriptEvent) {
+    this.entries.push({ kind: 'transcript', ...event });
+  }
+
+  addReply(event: ReplyEvent) {
+    this.entries.push({ kind: 'reply', ...event });
+  }
+
+  getEntries(): TranscriptEntry[] {
+    return [...this.entries].sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  export(format: TranscriptFormat): string {
+    switch (format) {
+      case 'jsonl':
+        return this.toJSONL();
+      case 'srt':
+        return this.toSRT();
+      case 'vtt':
+        return this.toWebVTT();
+    }
+  }
+
+  toJSONL(): string {
+    return this.getEntries().map((entry) => JSON.stringify(entry)).join('\n') + '\n';
+  }
+
+  toSRT(): string {
+    return this.getEntries()
+      .map((entry, index) => {
+        const [start, end] = this.cueTimes(entry);
+        return `${index + 1}\n${formatTimestamp(start, ',')} --> ${formatTimestamp(end, ',')}\n${entry.speakerName}: ${entry.text}\n`;
+      })
+      .join('\n');
+  }
+
+  toWebVTT(): string {
+    const cues = this.getEntries().map((entry) => {
+      const [start, end] = this.cueTimes(entry);
+      return `${formatTimestamp(start, '.')} --> ${formatTimestamp(end, '.')}\n<v ${escapeVtt(entry.speakerName)}>${escapeVtt(entry.text)}\n`;
+    });
+    return ['WEBVTT\n', ...cues].join('\n');
+  }
+
+  // Writes one file per format and returns their paths
+  async exportToDirectory(directory: string, baseName: string, formats: TranscriptFormat[]): Promise<string[]> {
+    await mkdir(directory, { recursive: true });
+    const paths: string[] = [];
+    for (const format of formats) {
+      const path = join(directory, `${baseName}.${format}`);
+      await writeFile(path, this.export(format), 'utf8');
+      paths.push(path);
+    }
+    return paths;
+  }
+
+  clear() {
+    this.entries = [];
+  }
+
+  // Cues need a visible duration even when start and end collapse (e.g. a one-word utterance)
+  private cueTimes(entry: TranscriptEntry): [number, number] {
+    const start = Math.max(0, entry.startedAt - this.callStartedAt);
+    const end = Math.max(start + 500, entry.endedAt - this.callStartedAt);
+    return [start, end];
+  }
+}
+
+function formatTimestamp(ms: number, fractionSeparator: ',' | '.'): string {
+  const total = Math.round(ms);
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor(total / 60_000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  const millis = total % 1000;
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${fractionSeparator}${pad(millis, 3)}`;
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,212 @@
+export type VadMode = 'energy' | 'adaptive';
+
+export interface VoiceActivityDetector {
+  // One decoded 48k stereo s16le frame in, speech / not speech out
+  isSpeech(chunk: Buffer): boolean;
+}
+
+export interface FrameFeatures {
+  energy: number; // 0-1 RMS
+  zeroCrossingRate: number; // crossings per sample, mono
+  spectralFlatness: number; // 0 (tonal, voiced speech) - 1 (white noise), 100 Hz - 4 kHz
+}
+
+export interface AdaptiveVadOptions {
+  minEnergy: number; // nothing quieter than this starts speech, however low the noise floor
+  startRatio: number; // energy must exceed noise floor × this to start speech
+  continueRatio: number; // ...and stay above noise floor × this to continue it
+  onsetFrames: number; // consecutive speech-like frames needed to start
+  hangoverFrames: number; // frames speech is held after the last speech-like frame
+  noiseAdaptRate: number; // 0-1, how quickly the noise floor follows background level
+  maxZeroCrossingRate: number; // hiss and fans cross zero far more often than voiced speech
+  maxSpectralFlatness: number; // clicks and broadband noise have flat spectra
+}
+
+export const DEFAULT_ADAPTIVE_VAD_OPTIONS: AdaptiveVadOptions = {
+  minEnergy: 0.01,
+  startRatio: 3,
+  continueRatio: 1.5,
+  onsetFrames: 2,
+  hangoverFrames: 8,
+  noiseAdaptRate: 0.05,
+  maxZeroCrossingRate: 0.25,
+  maxSpectralFlatness: 0.45,
+};
+
+const SAMPLE_RATE = 48000;
+const FFT_SIZE = 512;
+const BAND_LOW_HZ = 100;
+const BAND_HIGH_HZ = 4000;
+
+// The original detector: a fixed RMS threshold
+export class EnergyVad implements VoiceActivityDetector {
+  constructor(private threshold: number) {}
+
+  isSpeech(chunk: Buffer): boolean {
+    return rmsEnergy(chunk) >= this.threshold;
+  }
+}
+
+/**
+ * Tracks the speaker's background level and only starts speech on frames that
+ * are clearly louder than it and look like voice (low zero-crossing rate, peaky
+ * spectrum). Once started, speech continues on a lower threshold and is held
+ * for a few frames so short dips between syllables don't end it. Keep one
+ * instance per speaker; the noise floor is that speaker's.
+ */
+export class AdaptiveVad implements VoiceActivityDetector {
+  private options: AdaptiveVadOptions;
+  private floor: number | null = null;
+  private active = false;
+  private onsetCount = 0;
+  private hangover = 0;
+
+  constructor(options: Partial<AdaptiveVadOptions> = {}) {
+    this.options = { ...DEFAULT_ADAPTIVE_VAD_OPTIONS, ...options };
+  }
+
+  get noiseFloor(): number {
+    return this.floor ?? 0;
+  }
+
+  isSpeech(chunk: Buffer): boolean {
+    const features = frameFeatures(chunk);
+    // Discord only sends audio while someone talks, so the first frames are often speech; until
+    // a quiet frame has been seen, only `minEnergy` applies
+    const floor = this.floor ?? 0;
+
+    if (this.active) {
+      if (features.energy >= Math.max(this.options.minEnergy / 2, floor * this.options.continueRatio)) {
+        this.hangover = this.options.hangoverFrames;
+      } else if (--this.hangover <= 0) {
+        this.active = false;
+        this.onsetCount = 0;
+      }
+      return this.active;
+    }
+
+    const speechLike = features.energy >= Math.max(this.options.minEnergy, floor * this.options.startRatio)
+      && features.zeroCrossingRate <= this.options.maxZeroCrossingRate
+      && features.spectralFlatness <= this.options.maxSpectralFlatness;
+
+    if (!speechLike) {
+      this.onsetCount = 0;
+      this.adaptFloor(features.energy);
+      return false;
+    }
+
+    if (++this.onsetCount >= this.options.onsetFrames) {
+      this.active = true;
+      this.hangover = this.options.hangoverFrames;
+    }
+    return this.active;
+  }
+
+  // Drops quickly to quieter backgrounds, rises slowly so speech onsets don't drag it up
+  private adaptFloor(energy: number) {
+    if (this.floor === null) {
+      this.floor = energy;
+      return;
+    }
+    const rate = energy < this.floor ? Math.min(1, this.options.noiseAdaptRate * 4) : this.options.noiseAdaptRate;
+    this.floor += (energy - this.floor) * rate;
+  }
+}
+
+export function createVad(mode: VadMode, options: { energyThreshold: number; adaptive?: Partial<AdaptiveVadOptions> }): VoiceActivityDetector {
+  return mode === 'energy' ? new EnergyVad(options.energyThreshold) : new AdaptiveVad(options.adaptive);
+}
+
+export function rmsEnergy(chunk: Buffer) {
+  if (chunk.length < 2) return 0;
+  let sum = 0;
+  const samples = Math.floor(chunk.length / 2);
+  for (let i = 0; i < samples; i++) {
+    const sample = chunk.readInt16LE(i * 2);
+    sum += sample * sample;
+  }
+  const rms = Math.sqrt(sum / samples);
+  return rms / 32768;
+}
+
+export function frameFeatures(chunk: Buffer): FrameFeatures {
+  const mono = toMono(chunk);
+
+  let crossings = 0;
+  for (let i = 1; i < mono.length; i++) {
+    if ((mono[i - 1] >= 0) !== (mono[i] >= 0)) crossings++;
+  }
+
+  return {
+    energy: rmsEnergy(chunk),
+    zeroCrossingRate: mono.length > 1 ? crossings / (mono.length - 1) : 0,
+    spectralFlatness: spectralFlatness(mono),
+  };
+}
+
+function toMono(chunk: Buffer): Float64Array {
+  const frames = Math.floor(chunk.length / 4);
+  const mono = new Float64Array(frames);
+  for (let i = 0; i < frames; i++) {
+    mono[i] = (chunk.readInt16LE(i * 4) + chunk.readInt16LE(i * 4 + 2)) / 65536;
+  }
+  return mono;
+}
+
+// Geometric over arithmetic mean of the Hann-windowed power spectrum of the first FFT_SIZE samples
+function spectralFlatness(mono: Float64Array): number {
+  // Too short to say; don't let it veto speech
+  if (mono.length < FFT_SIZE) return 0;
+
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  for (let i = 0; i < FFT_SIZE; i++) {
+    re[i] = mono[i] * (0.5 - 0.5 * Math.cos(2 * Math.PI * i / (FFT_SIZE - 1)));
+  }
+  fft(re, im);
+
+  const binHz = SAMPLE_RATE / FFT_SIZE;
+  const low = Math.ceil(BAND_LOW_HZ / binHz);
+  const high = Math.floor(BAND_HIGH_HZ / binHz);
+  let logSum = 0;
+  let sum = 0;
+  for (let k = low; k <= high; k++) {
+    const power = re[k] * re[k] + im[k] * im[k] + 1e-12;
+    logSum += Math.log(power);
+    sum += power;
+  }
+  const bins = high - low + 1;
+  return Math.exp(logSum / bins) / (sum / bins);
+}
+
+// In-place iterative radix-2 FFT; length must be a power of two
+function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
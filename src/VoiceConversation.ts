@@ -1,35 +1,52 @@
 import { EventEmitter } from 'events';
-import { spawn } from 'child_process';
+import { PrewarmedDecoder, parseWav, pcm48kStereoToWav16kMono, toPcm48kStereo } from './AudioConversion.js';
+import { ChatMessage, ChatModel, ChatOptions, ModerationClassifier, ModerationVerdict, RequestOptions, SpeechToText, SynthesisOptions, TextToSpeech, ToolCall, TranscriptionOptions } from './Backends.js';
+import { VadMode, VoiceActivityDetector, createVad } from './VoiceActivityDetector.js';
+import { VoiceMetrics } from './Metrics.js';
 
 export interface OpenAIConfig {
-  apiKey: string;
+  apiKey?: string;
+  baseUrl?: string; // defaults to https://api.openai.com/v1; any OpenAI-compatible server works
   chatModel: string;
   whisperModel: string;
   ttsModel: string;
   ttsVoice: string;
-  systemPrompt?: string;
+  moderationModel?: string; // defaults to omni-moderation-latest
+  maxTextLength?: number; // TTS text length limit
 }
 
 export interface ConversationConfig {
-  openai: OpenAIConfig;
-  energyThreshold: number; // 0-1 RMS threshold
+  systemPrompt?: string;
+  energyThreshold: number; // 0-1 RMS threshold (energy VAD only)
+  vadMode?: VadMode; // `adaptive` (default) tracks each speaker's noise floor; `energy` uses energyThreshold
+  vadHangoverMs?: number; // adaptive VAD: how long speech is held through quiet frames
+  minUtteranceMs?: number; // speech shorter than this is dropped as a click or bump
   silenceMs: number;
   maxUtteranceMs: number;
   preRollMs: number;
   language?: string; // optional ASR language hint
   maxTextLength?: number; // TTS text length limit
-  rateLimitMs?: number; // Rate limit between requests
-  monthlyCostLimit?: number; // Monthly cost limit in USD
+  rateLimitNotice?: string; // Spoken to a throttled user; nothing is said when unset
+  rateLimitMaxDelayMs?: number; // Throttled utterances are deferred up to this long, then dropped
+  costLimitAction?: 'refuse' | 'transcribe-only'; // What to do once a monthly budget is used up
+  bargeIn?: 'off' | 'stop' | 'duck'; // What to do with bot speech when a user starts talking
+  bargeInDuckVolume?: number; // 0-1 playback volume while ducked
+  streamReplies?: boolean; // Stream chat tokens and speak sentence by sentence
+  conversationMode?: 'per-user' | 'channel'; // Separate history per speaker, or one shared attributed history
 }
 
 export interface Utterance {
   userId: string;
   pcm: Buffer; // 48k stereo s16le
-  timestamp: number;
+  timestamp: number; // when the utterance was flushed
+  startedAt: number; // start of the audio, pre-roll included
+  endedAt: number; // last voiced chunk
+  reason?: string;
 }
 
 export interface TranscriptResult {
   text: string;
+  language?: string; // ISO-639-1 code of the detected language, when asked for and the backend reports it
 }
 
 export interface Logger {
@@ -39,17 +56,16 @@ export interface Logger {
   debug(msg: string, meta?: any): void;
 }
 
-// Rate limiting storage
-const userLastRequest = new Map<string, number>();
-let monthlySpend = 0;
+// Remove potentially dangerous control characters
+function stripControlChars(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
+    .replace(/[\u200B\u200C\u200D\u2060\uFEFF]/g, ''); // Zero-width characters
+}
 
 // Hardening: Input sanitization for prompt injection
 function sanitizeInput(text: string, maxLength: number = 1000): string {
-  // Remove potentially dangerous control characters
-  let sanitized = text
-    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
-    .replace(/[\u200B\u200C\u200D\u2060\uFEFF]/g, '') // Zero-width characters
-    .trim();
+  let sanitized = stripControlChars(text).trim();
 
   // Limit length
   if (sanitized.length > maxLength) {
@@ -59,58 +75,83 @@ function sanitizeInput(text: string, maxLength: number = 1000): string {
   return sanitized;
 }
 
-// Hardening: Check rate limits
-function checkRateLimit(userId: string, limitMs: number = 2000): boolean {
-  const now = Date.now();
-  const lastRequest = userLastRequest.get(userId) || 0;
-  if (now - lastRequest < limitMs) {
-    return false;
-  }
-  userLastRequest.set(userId, now);
-  return true;
+// Whisper reports the detected language by name ("german"); the rest of the plugin uses ISO-639-1 codes
+export function languageCode(language: unknown): string | undefined {
+  if (typeof language !== 'string') return undefined;
+  const normalized = language.trim().toLowerCase();
+  if (/^[a-z]{2,3}$/.test(normalized)) return normalized;
+  return languageCodesByName().get(normalized);
 }
 
-// Hardening: Estimate and track costs
-const COST_ESTIMATES = {
-  'gpt-4o-mini': { input: 0.15, output: 0.60 }, // per 1M tokens
-  'whisper-1': 0.006, // per minute
-  'gpt-4o-mini-tts': 0.003, // per 1K characters
-};
-
-function trackCost(operation: string, userId: string, tokensOrMinutesOrChars: number) {
-  const now = Date.now();
-  const monthKey = `${now.getFullYear()}-${now.getMonth()}`;
-  
-  // Simplified cost tracking - in production you'd track per-user properly
-  // This is a global tracker for demonstration
+let codesByName: Map<string, string> | null = null;
+
+function languageCodesByName(): Map<string, string> {
+  if (codesByName) return codesByName;
+  codesByName = new Map();
+  const names = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' });
+  for (let first = 97; first <= 122; first++) {
+    for (let second = 97; second <= 122; second++) {
+      const code = String.fromCharCode(first, second);
+      const name = names.of(code);
+      if (name) codesByName.set(name.toLowerCase(), code);
+    }
+  }
+  return codesByName;
 }
 
+/**
+ * Cuts a speaker's audio into utterances. Frames are classified by a
+ * `VoiceActivityDetector`; speech only counts (and `speechStart` only fires) once
+ * it has lasted `minUtteranceMs`, so clicks and bumps never reach ASR or trigger
+ * barge-in. `now` can be passed to replay recorded PCM offline.
+ */
 export class SpeechAggregator extends EventEmitter {
   private preRollBuffers: Buffer[] = [];
   private utteranceBuffers: Buffer[] = [];
   private inSpeech = false;
+  private confirmed = false;
+  private voiceStartedAt = 0;
   private lastVoiceAt = 0;
   private lastChunkAt = 0;
+  private speechStartedAt = 0;
   private maxPreRollBytes: number;
   private maxUtteranceBytes: number;
+  private vad: VoiceActivityDetector;
+  private customVad: boolean;
 
   constructor(
     private config: ConversationConfig,
     private logger: Logger,
-    private userId: string
+    private userId: string,
+    vad?: VoiceActivityDetector
   ) {
     super();
     const bytesPerMs = 48000 * 2 * 2 / 1000; // 48k * 2ch * 2 bytes
     this.maxPreRollBytes = Math.floor(bytesPerMs * config.preRollMs);
     this.maxUtteranceBytes = Math.floor(bytesPerMs * config.maxUtteranceMs);
+    this.customVad = vad !== undefined;
+    this.vad = vad ?? this.createVad();
+  }
+
+  // Picks up changes to the (shared) config; a rebuilt adaptive VAD relearns the speaker's noise floor
+  public reconfigure() {
+    const bytesPerMs = 48000 * 2 * 2 / 1000;
+    this.maxPreRollBytes = Math.floor(bytesPerMs * this.config.preRollMs);
+    this.maxUtteranceBytes = Math.floor(bytesPerMs * this.config.maxUtteranceMs);
+    if (!this.customVad) this.vad = this.createVad();
+  }
+
+  private createVad(): VoiceActivityDetector {
+    return createVad(this.config.vadMode ?? 'adaptive', {
+      energyThreshold: this.config.energyThreshold,
+      adaptive: this.config.vadHangoverMs !== undefined ? { hangoverFrames: Math.round(this.config.vadHangoverMs / 20) } : undefined,
+    });
   }
 
-  public push(chunk: Buffer) {
-    const now = Date.now();
+  public push(chunk: Buffer, now: number = Date.now()) {
     this.lastChunkAt = now;
 
-    const energy = rmsEnergy(chunk);
-    const isVoice = energy >= this.config.energyThreshold;
+    const isVoice = this.vad.isSpeech(chunk);
 
     if (!this.inSpeech) {
       this.preRollBuffers.push(chunk);
@@ -118,9 +159,13 @@ export class SpeechAggregator extends EventEmitter {
 
       if (isVoice) {
         this.inSpeech = true;
+        this.voiceStartedAt = now;
         this.lastVoiceAt = now;
-        this.utteranceBuffers = [...this.preRollBuffers, chunk];
+        const preRollBytes = this.preRollBuffers.reduce((sum, b) => sum + b.length, 0);
+        this.speechStartedAt = now - preRollBytes / (48000 * 2 * 2 / 1000);
+        this.utteranceBuffers = this.preRollBuffers;
         this.preRollBuffers = [];
+        this.confirmIfLongEnough();
       }
       return;
     }
@@ -128,6 +173,7 @@ export class SpeechAggregator extends EventEmitter {
     // in speech
     if (isVoice) {
       this.lastVoiceAt = now;
+      this.confirmIfLongEnough();
     }
 
     this.utteranceBuffers.push(chunk);
@@ -143,6 +189,17 @@ export class SpeechAggregator extends EventEmitter {
     }
   }
 
+  // The speaker's audio stream ended (Discord stops sending packets during silence)
+  public end() {
+    this.flush('stream-end');
+  }
+
+  private confirmIfLongEnough() {
+    if (this.confirmed || this.lastVoiceAt - this.voiceStartedAt < (this.config.minUtteranceMs ?? 0)) return;
+    this.confirmed = true;
+    this.emit('speechStart', { userId: this.userId });
+  }
+
   private trimPreRoll() {
     let total = this.preRollBuffers.reduce((sum, b) => sum + b.length, 0);
     while (total > this.maxPreRollBytes && this.preRollBuffers.length > 0) {
@@ -157,44 +214,78 @@ export class SpeechAggregator extends EventEmitter {
       return;
     }
 
+    if (!this.confirmed) {
+      this.logger.debug(`Discarding ${this.lastVoiceAt - this.voiceStartedAt}ms of speech from ${this.userId} (shorter than minimum)`);
+      this.reset();
+      return;
+    }
+
     const pcm = Buffer.concat(this.utteranceBuffers);
-    this.emit('utterance', {
+    const utterance: Utterance = {
       userId: this.userId,
       pcm,
-      timestamp: Date.now(),
+      timestamp: this.lastChunkAt,
+      startedAt: this.speechStartedAt,
+      endedAt: this.lastVoiceAt,
       reason,
-    });
+    };
+    this.emit('utterance', utterance);
     this.reset();
   }
 
   private reset() {
+    if (this.confirmed) this.emit('speechEnd', { userId: this.userId });
     this.inSpeech = false;
+    this.confirmed = false;
     this.utteranceBuffers = [];
     this.preRollBuffers = [];
   }
 }
 
-function rmsEnergy(chunk: Buffer) {
-  if (chunk.length < 2) return 0;
-  let sum = 0;
-  const samples = Math.floor(chunk.length / 2);
-  for (let i = 0; i < samples; i++) {
-    const sample = chunk.readInt16LE(i * 2);
-    sum += sample * sample;
+// Replays recorded 48k stereo PCM through a fresh aggregator in 20ms frames, e.g. to
+// check VAD settings against fixtures; timestamps are relative to the start of `pcm`
+export function segmentPcm(pcm: Buffer, config: ConversationConfig, vad?: VoiceActivityDetector): Utterance[] {
+  const frameBytes = 48000 * 2 * 2 / 1000 * 20;
+  const silentLogger: Logger = { info() {}, warn() {}, error() {}, debug() {} };
+  const aggregator = new SpeechAggregator(config, silentLogger, 'fixture', vad);
+  const utterances: Utterance[] = [];
+  aggregator.on('utterance', (utterance: Utterance) => utterances.push(utterance));
+
+  for (let offset = 0; offset < pcm.length; offset += frameBytes) {
+    const frame = pcm.subarray(offset, offset + frameBytes);
+    aggregator.push(frame, (offset + frame.length) / (frameBytes / 20));
   }
-  const rms = Math.sqrt(sum / samples);
-  return rms / 32768;
+  aggregator.end();
+  return utterances;
 }
 
-export class OpenAIClient {
-  constructor(private config: OpenAIConfig, private logger: Logger) {}
+export class OpenAIClient implements SpeechToText, ChatModel, TextToSpeech, ModerationClassifier {
+  private baseUrl: string;
+
+  constructor(private config: OpenAIConfig, private logger: Logger, private metrics?: VoiceMetrics) {
+    this.baseUrl = (config.baseUrl ?? 'https://api.openai.com/v1').replace(/\/+$/, '');
+  }
 
-  async transcribe(wavBuffer: Buffer, language?: string): Promise<TranscriptResult> {
-    // Hardening: Check rate limit
-    if (!checkRateLimit('global', this.config.rateLimitMs || 1000)) {
-      throw new Error('Rate limit exceeded');
+  private authHeaders(): Record<string, string> {
+    return this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+  }
+
+  // Times the request up to the response headers and counts failures by status; an aborted request isn't a failure
+  private async send(endpoint: 'asr' | 'chat' | 'tts' | 'moderation', path: string, init: RequestInit): Promise<Response> {
+    const labels = { backend: 'openai', endpoint };
+    const startedAt = Date.now();
+    try {
+      const resp = await fetch(`${this.baseUrl}${path}`, init);
+      this.metrics?.apiLatency.observe(labels, (Date.now() - startedAt) / 1000);
+      if (!resp.ok) this.metrics?.apiErrors.inc({ ...labels, code: String(resp.status) });
+      return resp;
+    } catch (error) {
+      if (!init.signal?.aborted) this.metrics?.apiErrors.inc({ ...labels, code: 'network' });
+      throw error;
     }
+  }
 
+  async transcribe(wavBuffer: Buffer, language?: string, options: TranscriptionOptions = {}): Promise<TranscriptResult> {
     // Hardening: Validate input size (max 25MB for Whisper API)
     const maxSize = 25 * 1024 * 1024;
     if (wavBuffer.length > maxSize) {
@@ -204,14 +295,14 @@ export class OpenAIClient {
     const form = new FormData();
     form.append('model', this.config.whisperModel);
     if (language) form.append('language', language);
+    // Only the verbose format reports the detected language
+    if (options.detectLanguage && !language) form.append('response_format', 'verbose_json');
     form.append('file', new Blob([new Uint8Array(wavBuffer)], { type: 'audio/wav' }), 'audio.wav');
 
     try {
-      const resp = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+      const resp = await this.send('asr', '/audio/transcriptions', {
         method: 'POST',
-        headers: {
-          Authorization: `Bearer ${this.config.apiKey}`,
-        },
+        headers: this.authHeaders(),
         body: form,
       });
 
@@ -220,37 +311,34 @@ export class OpenAIClient {
         throw new Error(`ASR failed (${resp.status})`);
       }
 
-      const data = await resp.json();
-      return { text: sanitizeInput(data.text ?? '') };
+      const data: unknown = await resp.json();
+      if (!isTranscriptionPayload(data)) throw new Error('Malformed transcription response');
+      // The verbose format reports the duration it billed for; otherwise it's the length of what was sent
+      const durationMs = data.duration != null ? data.duration * 1000 : wavDurationMs(wavBuffer);
+      options.onUsage?.({ kind: 'asr', model: this.config.whisperModel, minutes: durationMs / 60000 });
+      return { text: sanitizeInput(data.text ?? ''), language: languageCode(data.language) };
     } catch (error) {
       this.logger.error('Transcription error', { error: error instanceof Error ? error.message : 'Unknown error' });
       throw error;
     }
   }
 
-  async chat(messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>) {
-    // Hardening: Check rate limit
-    if (!checkRateLimit('chat', this.config.rateLimitMs || 2000)) {
-      throw new Error('Rate limit exceeded');
-    }
-
-    // Hardening: Sanitize all user messages
-    const sanitizedMessages = messages.map(msg => ({
-      ...msg,
-      content: msg.role === 'user' ? sanitizeInput(msg.content) : msg.content,
-    }));
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const sanitizedMessages = sanitizeMessages(messages);
 
     try {
-      const resp = await fetch('https://api.openai.com/v1/chat/completions', {
+      const resp = await this.send('chat', '/chat/completions', {
         method: 'POST',
         headers: {
-          Authorization: `Bearer ${this.config.apiKey}`,
+          ...this.authHeaders(),
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           model: this.config.chatModel,
           messages: sanitizedMessages,
+          ...toolsBody(options),
         }),
+        signal: options.signal,
       });
 
       if (!resp.ok) {
@@ -258,37 +346,128 @@ export class OpenAIClient {
         throw new Error(`Chat failed (${resp.status})`);
       }
 
-      const data = await resp.json();
-      return sanitizeInput(data.choices?.[0]?.message?.content?.trim() ?? '');
+      const data: unknown = await resp.json();
+      if (!isChatPayload(data)) throw new Error('Malformed chat response');
+      this.reportChatUsage(data.usage, options);
+      const message = data.choices?.[0]?.message;
+      const toolCalls: ToolCall[] = (message?.tool_calls ?? []).map((call) => ({
+        id: call.id ?? '',
+        name: call.function?.name ?? '',
+        arguments: call.function?.arguments ?? '',
+      }));
+      if (toolCalls.length > 0) options.onToolCalls?.(toolCalls);
+      return sanitizeInput(message?.content?.trim() ?? '');
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       this.logger.error('Chat error', { error: error instanceof Error ? error.message : 'Unknown error' });
       throw error;
     }
   }
 
-  async tts(text: string): Promise<Buffer> {
-    // Hardening: Check rate limit
-    if (!checkRateLimit('tts', this.config.rateLimitMs || 1000)) {
-      throw new Error('Rate limit exceeded');
+  async *chatStream(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+    const sanitizedMessages = sanitizeMessages(messages);
+    // Tool calls arrive in pieces keyed by index: id and name first, then the arguments bit by bit
+    const toolCalls: ToolCall[] = [];
+
+    try {
+      const resp = await this.send('chat', '/chat/completions', {
+        method: 'POST',
+        headers: {
+          ...this.authHeaders(),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.config.chatModel,
+          messages: sanitizedMessages,
+          stream: true,
+          stream_options: { include_usage: true },
+          ...toolsBody(options),
+        }),
+        signal: options.signal,
+      });
+
+      if (!resp.ok || !resp.body) {
+        // Hardening: Don't log the full error response
+        throw new Error(`Chat failed (${resp.status})`);
+      }
+
+      // Server-sent events: one `data: {...}` line per token batch, terminated by `data: [DONE]`
+      const reader = resp.body.getReader();
+      const decoder = new TextDecoder();
+      let pending = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        pending += decoder.decode(value, { stream: true });
+        const lines = pending.split('\n');
+        pending = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice(5).trim();
+          if (payload === '[DONE]') continue;
+
+          const data: unknown = JSON.parse(payload);
+          if (!isChatPayload(data)) throw new Error('Malformed chat response');
+          // The usage chunk comes last, with an empty `choices` array
+          if (data.usage) this.reportChatUsage(data.usage, options);
+
+          for (const part of data.choices?.[0]?.delta?.tool_calls ?? []) {
+            const call = toolCalls[part.index ?? 0] ??= { id: '', name: '', arguments: '' };
+            if (part.id) call.id = part.id;
+            if (part.function?.name) call.name += part.function.name;
+            if (part.function?.arguments) call.arguments += part.function.arguments;
+          }
+
+          const delta = data.choices?.[0]?.delta?.content;
+          if (delta) yield stripControlChars(delta);
+        }
+      }
+
+      const requested = toolCalls.filter((call) => call && call.name);
+      if (requested.length > 0) options.onToolCalls?.(requested);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      this.logger.error('Chat error', { error: error instanceof Error ? error.message : 'Unknown error' });
+      throw error;
     }
+  }
+
+  private reportChatUsage(usage: ChatUsagePayload | null | undefined, options: RequestOptions) {
+    if (!usage) return;
+    options.onUsage?.({
+      kind: 'chat',
+      model: this.config.chatModel,
+      inputTokens: usage.prompt_tokens ?? 0,
+      outputTokens: usage.completion_tokens ?? 0,
+    });
+  }
 
+  async synthesize(text: string, options: SynthesisOptions = {}): Promise<Buffer> {
     // Hardening: Limit text length (TTS has a 4096 char limit)
     const maxLength = this.config.maxTextLength || 1000;
     const sanitizedText = sanitizeInput(text, maxLength);
 
     try {
-      const resp = await fetch('https://api.openai.com/v1/audio/speech', {
+      const resp = await this.send('tts', '/audio/speech', {
         method: 'POST',
         headers: {
-          Authorization: `Bearer ${this.config.apiKey}`,
+          ...this.authHeaders(),
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           model: this.config.ttsModel,
-          voice: this.config.ttsVoice,
+          voice: options.voice ?? this.config.ttsVoice,
           input: sanitizedText,
-          format: 'mp3',
+          ...(options.speed !== undefined ? { speed: options.speed } : {}),
+          // Uncompressed, so replies are converted in-process without ffmpeg
+          response_format: 'wav',
         }),
+        signal: options.signal,
       });
 
       if (!resp.ok) {
@@ -297,70 +476,225 @@ export class OpenAIClient {
       }
 
       const arrayBuffer = await resp.arrayBuffer();
+      options.onUsage?.({ kind: 'tts', model: this.config.ttsModel, characters: sanitizedText.length });
       return Buffer.from(arrayBuffer);
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       this.logger.error('TTS error', { error: error instanceof Error ? error.message : 'Unknown error' });
       throw error;
     }
   }
+
+  async classify(text: string, options: RequestOptions = {}): Promise<ModerationVerdict> {
+    try {
+      const resp = await this.send('moderation', '/moderations', {
+        method: 'POST',
+        headers: {
+          ...this.authHeaders(),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.config.moderationModel ?? 'omni-moderation-latest',
+          input: sanitizeInput(text),
+        }),
+        signal: options.signal,
+      });
+
+      if (!resp.ok) {
+        // Hardening: Don't log the full error response
+        throw new Error(`Moderation failed (${resp.status})`);
+      }
+
+      const data: unknown = await resp.json();
+      if (!isModerationPayload(data)) throw new Error('Malformed moderation response');
+      const result = data.results?.[0];
+      const categories = Object.entries(result?.categories ?? {}).filter(([, flagged]) => flagged === true).map(([category]) => category);
+      return { flagged: result?.flagged === true, categories };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      this.logger.error('Moderation error', { error: error instanceof Error ? error.message : 'Unknown error' });
+      throw error;
+    }
+  }
 }
 
-export async function resamplePcmToWav16kMono(pcm48kStereo: Buffer): Promise<Buffer> {
-  return await spawnFfmpeg([
-    '-f', 's16le',
-    '-ar', '48000',
-    '-ac', '2',
-    '-i', 'pipe:0',
-    '-ac', '1',
-    '-ar', '16000',
-    '-f', 'wav',
-    'pipe:1',
-  ], pcm48kStereo);
+// Duration of a PCM WAV buffer, from the byte rate in its header
+function wavDurationMs(wav: Buffer): number {
+  if (wav.length <= 44) return 0;
+  const byteRate = wav.readUInt32LE(28);
+  return byteRate > 0 ? ((wav.length - 44) / byteRate) * 1000 : 0;
 }
 
-export async function resampleAudioToPcm48kStereo(inputAudio: Buffer): Promise<Buffer> {
-  return await spawnFfmpeg([
-    '-i', 'pipe:0',
-    '-f', 's16le',
-    '-ar', '48000',
-    '-ac', '2',
-    'pipe:1',
-  ], inputAudio);
-}
-
-async function spawnFfmpeg(args: string[], input: Buffer): Promise<Buffer> {
-  // Hardening: Timeout for FFmpeg to prevent hanging
-  const TIMEOUT_MS = 30000;
-
-  return new Promise((resolve, reject) => {
-    const ffmpeg = spawn('ffmpeg', args, { stdio: ['pipe', 'pipe', 'pipe'] });
-    const chunks: Buffer[] = [];
-    const errors: Buffer[] = [];
-
-    const timeout = setTimeout(() => {
-      ffmpeg.kill('SIGTERM');
-      reject(new Error('FFmpeg timed out'));
-    }, TIMEOUT_MS);
-
-    ffmpeg.stdout.on('data', (data) => chunks.push(data));
-    ffmpeg.stderr.on('data', (data) => errors.push(data));
-
-    ffmpeg.on('error', (err) => {
-      clearTimeout(timeout);
-      reject(err);
-    });
+// Hardening: Sanitize all user messages
+// Also maps tool turns to the wire format
+function sanitizeMessages(messages: ChatMessage[]): object[] {
+  return messages.map(msg => {
+    const content = msg.role === 'user' ? sanitizeInput(msg.content) : msg.content;
+    if (msg.role === 'tool') {
+      return { role: 'tool', tool_call_id: msg.toolCallId, content };
+    }
+    if (msg.toolCalls?.length) {
+      return {
+        role: msg.role,
+        content: content || null,
+        tool_calls: msg.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    return { role: msg.role, content };
+  });
+}
+
+// What is read from a transcription; `language` and `duration` only come with `verbose_json`
+interface TranscriptionPayload {
+  text?: string | null;
+  language?: string | null;
+  duration?: number | null; // seconds
+}
+
+// What is read from a moderation result; `categories` maps each category to whether it was flagged
+interface ModerationPayload {
+  results?: Array<{ flagged?: boolean | null; categories?: Record<string, unknown> | null }>;
+}
+
+function isTranscriptionPayload(value: unknown): value is TranscriptionPayload {
+  return isRecord(value) && isOptional(value.text, 'string') && isOptional(value.language, 'string') && isOptional(value.duration, 'number');
+}
+
+function isModerationPayload(value: unknown): value is ModerationPayload {
+  if (!isRecord(value)) return false;
+  const { results } = value;
+  return results === undefined || (Array.isArray(results) && results.every((result) =>
+    isRecord(result) && isOptional(result.flagged, 'boolean') && (result.categories == null || isRecord(result.categories))
+  ));
+}
+
+// What is read from a chat completion, or from one streamed chunk of it (`delta` instead of
+// `message`). Compatible servers leave out or null fields freely, so all of them are optional.
+interface ChatPayload {
+  choices?: ChatChoicePayload[];
+  usage?: ChatUsagePayload | null;
+}
+
+interface ChatChoicePayload {
+  message?: ChatMessagePayload | null;
+  delta?: ChatMessagePayload | null;
+}
+
+interface ChatMessagePayload {
+  content?: string | null;
+  tool_calls?: ToolCallPayload[] | null;
+}
 
-    ffmpeg.on('close', (code) => {
-      clearTimeout(timeout);
-      if (code === 0) {
-        resolve(Buffer.concat(chunks));
-      } else {
-        // Hardening: Don't expose FFmpeg stderr to users
-        reject(new Error(`Audio processing failed`));
+// Streamed tool calls arrive in pieces keyed by `index`
+interface ToolCallPayload {
+  index?: number | null;
+  id?: string | null;
+  function?: { name?: string | null; arguments?: string | null } | null;
+}
+
+interface ChatUsagePayload {
+  prompt_tokens?: number | null;
+  completion_tokens?: number | null;
+}
+
+// Checks only the fields above; anything else in the response is ignored
+function isChatPayload(value: unknown): value is ChatPayload {
+  if (!isRecord(value)) return false;
+  const { choices, usage } = value;
+  if (choices !== undefined && !(Array.isArray(choices) && choices.every(isChoicePayload))) return false;
+  return usage == null || (isRecord(usage) && isOptional(usage.prompt_tokens, 'number') && isOptional(usage.completion_tokens, 'number'));
+}
+
+function isChoicePayload(value: unknown): value is ChatChoicePayload {
+  return isRecord(value) && (value.message == null || isMessagePayload(value.message)) && (value.delta == null || isMessagePayload(value.delta));
+}
+
+function isMessagePayload(value: unknown): value is ChatMessagePayload {
+  if (!isRecord(value) || !isOptional(value.content, 'string')) return false;
+  return value.tool_calls == null || (Array.isArray(value.tool_calls) && value.tool_calls.every(isToolCallPayload));
+}
+
+function isToolCallPayload(value: unknown): value is ToolCallPayload {
+  if (!isRecord(value) || !isOptional(value.index, 'number') || !isOptional(value.id, 'string')) return false;
+  const fn = value.function;
+  return fn == null || (isRecord(fn) && isOptional(fn.name, 'string') && isOptional(fn.arguments, 'string'));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Missing and null count as absent
+function isOptional(value: unknown, type: 'string' | 'number' | 'boolean'): boolean {
+  return value == null || typeof value === type;
+}
+
+function toolsBody(options: ChatOptions) {
+  if (!options.tools?.length) return {};
+  return {
+    tools: options.tools.map((tool) => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    })),
+    ...(options.toolChoice ? { tool_choice: options.toolChoice } : {}),
+  };
+}
+
+/**
+ * Splits streamed reply text into sentences so each can be synthesized as soon as
+ * it is complete. Fragments shorter than `minLength` are held back and merged with
+ * the next sentence to avoid choppy one-word TTS requests.
+ */
+export class SentenceSplitter {
+  private pending = '';
+
+  constructor(private minLength: number = 20) {}
+
+  push(text: string): string[] {
+    this.pending += text;
+    const sentences: string[] = [];
+    const boundary = /[.!?\u2026]+["')\]]*\s+|\n+/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = boundary.exec(this.pending)) !== null) {
+      const end = match.index + match[0].length;
+      const sentence = this.pending.slice(start, end).trim();
+      if (sentence.length >= this.minLength) {
+        sentences.push(sentence);
+        start = end;
       }
-    });
+    }
 
-    ffmpeg.stdin.write(input);
-    ffmpeg.stdin.end();
-  });
+    this.pending = this.pending.slice(start);
+    return sentences;
+  }
+
+  flush(): string | null {
+    const rest = this.pending.trim();
+    this.pending = '';
+    return rest || null;
+  }
+}
+
+// Shared by every call; only used for TTS backends that return compressed audio
+const compressedAudioDecoder = new PrewarmedDecoder();
+
+export async function resamplePcmToWav16kMono(pcm48kStereo: Buffer): Promise<Buffer> {
+  return pcm48kStereoToWav16kMono(pcm48kStereo);
+}
+
+// WAV is converted in-process; anything else goes through the pre-warmed ffmpeg decoder
+export async function resampleAudioToPcm48kStereo(inputAudio: Buffer): Promise<Buffer> {
+  const wav = parseWav(inputAudio);
+  if (wav) return toPcm48kStereo(wav);
+  return await compressedAudioDecoder.decode(inputAudio);
+}
+
+export function closeAudioDecoder() {
+  compressedAudioDecoder.close();
 }
@@ -0,0 +1,164 @@
+import { Logger } from './VoiceConversation.js';
+import { wholeWordPattern } from './TextPatterns.js';
+import { JsonFile } from './JsonFile.js';
+
+export interface VoiceProfile {
+  language?: string; // ASR language hint (ISO-639-1, e.g. "de")
+  voice?: string; // TTS voice for replies to this user
+  speed?: number; // TTS speed, 0.25-4; backends without speed control ignore it
+  lexicon?: Record<string, string>; // word or name -> how to say it; only the text sent to TTS is changed
+  persona?: string; // added to the assistant prompt when replying to this user
+}
+
+export type ProfileScope = 'user' | 'role';
+
+export interface ProfileRecord extends VoiceProfile {
+  updatedAt: string; // ISO 8601
+}
+
+export interface VoiceProfileStoreOptions {
+  filePath?: string; // JSON file profiles are persisted to; in-memory only when omitted
+  flushDelayMs?: number;
+}
+
+interface ProfileFile {
+  version: 1;
+  users: Record<string, ProfileRecord>;
+  roles: Record<string, ProfileRecord>;
+}
+
+export const PROFILE_LIMITS = {
+  minSpeed: 0.25,
+  maxSpeed: 4,
+  maxVoiceLength: 50,
+  maxPersonaLength: 500,
+  maxLexiconEntries: 50,
+  maxWordLength: 50,
+  maxPronunciationLength: 100,
+};
+
+/**
+ * Per-user and per-role voice preferences. A speaker's profile is their roles'
+ * profiles layered from the lowest role to the highest, with their own on top;
+ * lexicons are merged entry by entry. User IDs are global, so a user's profile
+ * follows them across guilds. A guild's @everyone role has the guild's ID, so
+ * its profile works as a guild-wide default.
+ */
+export class VoiceProfileStore {
+  private data: ProfileFile = { version: 1, users: {}, roles: {} };
+  private file: JsonFile<ProfileFile>;
+
+  constructor(options: VoiceProfileStoreOptions, private logger: Logger) {
+    this.file = new JsonFile(options, 'voice profiles', logger, () => this.data);
+    this.load();
+  }
+
+  private load() {
+    const parsed = this.file.read() as Partial<ProfileFile> | undefined;
+    if (parsed === undefined) return;
+    if (parsed?.version === 1 && parsed.users && parsed.roles) {
+      this.data = parsed as ProfileFile;
+    } else {
+      this.logger.warn('Voice profile file has an unknown format; starting with no profiles');
+    }
+  }
+
+  get(scope: ProfileScope, id: string): ProfileRecord | undefined {
+    return this.records(scope)[id];
+  }
+
+  list(scope: ProfileScope): Array<ProfileRecord & { id: string }> {
+    return Object.entries(this.records(scope)).map(([id, record]) => ({ id, ...record }));
+  }
+
+  // Replaces the whole profile; throws when it is invalid, see `validateProfile`
+  set(scope: ProfileScope, id: string, profile: VoiceProfile) {
+    const issues = validateProfile(profile);
+    if (issues.length > 0) {
+      throw new Error(`Invalid voice profile: ${issues.join('; ')}`);
+    }
+
+    const record: ProfileRecord = { updatedAt: new Date().toISOString() };
+    if (profile.language) record.language = profile.language;
+    if (profile.voice) record.voice = profile.voice;
+    if (profile.speed !== undefined) record.speed = profile.speed;
+    if (profile.lexicon && Object.keys(profile.lexicon).length > 0) record.lexicon = { ...profile.lexicon };
+    if (profile.persona) record.persona = profile.persona;
+    this.records(scope)[id] = record;
+    this.file.scheduleFlush();
+  }
+
+  delete(scope: ProfileScope, id: string): boolean {
+    const records = this.records(scope);
+    if (!records[id]) return false;
+    delete records[id];
+    this.file.scheduleFlush();
+    return true;
+  }
+
+  // `roleIds` ordered from the lowest role to the highest, e.g. by position
+  resolve(userId: string, roleIds: string[] = []): VoiceProfile {
+    const layers = [...roleIds.map((roleId) => this.data.roles[roleId]), this.data.users[userId]].filter(Boolean);
+    const resolved: VoiceProfile = {};
+    for (const { updatedAt, lexicon, ...profile } of layers) {
+      Object.assign(resolved, profile);
+      if (lexicon) resolved.lexicon = { ...resolved.lexicon, ...lexicon };
+    }
+    return resolved;
+  }
+
+  flush(): Promise<void> {
+    return this.file.flush();
+  }
+
+  private records(scope: ProfileScope): Record<string, ProfileRecord> {
+    return scope === 'user' ? this.data.users : this.data.roles;
+  }
+}
+
+// Everything wrong with a profile; empty when it can be stored
+export function validateProfile(profile: VoiceProfile): string[] {
+  const issues: string[] = [];
+  if (profile.language !== undefined && !/^[a-z]{2,3}$/.test(profile.language)) {
+    issues.push('language must be a two- or three-letter ISO-639 code, e.g. "en"');
+  }
+  if (profile.voice !== undefined && !isValidVoiceName(profile.voice)) {
+    issues.push(`voice must be 1-${PROFILE_LIMITS.maxVoiceLength} letters, digits, "_" or "-"`);
+  }
+  if (profile.speed !== undefined && !(profile.speed >= PROFILE_LIMITS.minSpeed && profile.speed <= PROFILE_LIMITS.maxSpeed)) {
+    issues.push(`speed must be between ${PROFILE_LIMITS.minSpeed} and ${PROFILE_LIMITS.maxSpeed}`);
+  }
+  if (profile.persona !== undefined && profile.persona.length > PROFILE_LIMITS.maxPersonaLength) {
+    issues.push(`persona must be at most ${PROFILE_LIMITS.maxPersonaLength} characters`);
+  }
+
+  const entries = Object.entries(profile.lexicon ?? {});
+  if (entries.length > PROFILE_LIMITS.maxLexiconEntries) {
+    issues.push(`lexicon may have at most ${PROFILE_LIMITS.maxLexiconEntries} entries`);
+  }
+  for (const [word, pronunciation] of entries) {
+    if (!word.trim() || word.length > PROFILE_LIMITS.maxWordLength) {
+      issues.push(`lexicon words must be 1-${PROFILE_LIMITS.maxWordLength} characters`);
+    }
+    if (typeof pronunciation !== 'string' || !pronunciation.trim() || pronunciation.length > PROFILE_LIMITS.maxPronunciationLength) {
+      issues.push(`the pronunciation of "${word.slice(0, PROFILE_LIMITS.maxWordLength)}" must be 1-${PROFILE_LIMITS.maxPronunciationLength} characters`);
+    }
+  }
+  return issues;
+}
+
+// TTS voice names, however they are set: profiles, `/voice voice` and the `set_voice` tool
+export function isValidVoiceName(voice: string): boolean {
+  return voice.length <= PROFILE_LIMITS.maxVoiceLength && /^[\w-]+$/.test(voice);
+}
+
+// Respells lexicon words in text about to be synthesized; whole words only, case-insensitive, longest first
+export function applyLexicon(text: string, lexicon: Record<string, string> | undefined): string {
+  if (!lexicon) return text;
+  const words = Object.keys(lexicon).sort((a, b) => b.length - a.length);
+  if (words.length === 0) return text;
+
+  const lookup = new Map(words.map((word) => [word.toLowerCase(), lexicon[word]]));
+  const pattern = wholeWordPattern(words, 'g');
+  return text.replace(pattern, (match) => lookup.get(match.toLowerCase()) ?? match);
+}
@@ -0,0 +1,190 @@
+import { Client, Guild, GuildMember, PermissionFlagsBits } from 'discord.js';
+import { ToolCall, ToolDefinition } from './Backends.js';
+import { DiscordCall } from './DiscordCall.js';
+import { Logger } from './VoiceConversation.js';
+import { isValidVoiceName } from './VoiceProfiles.js';
+
+export interface ToolContext {
+  call: DiscordCall;
+  client: Client;
+  guild: Guild;
+  member: GuildMember; // the speaker whose request the model is acting on
+  textChannelId: string; // where text output goes: `tool_text_channel_id`, else the voice channel's chat
+  logger: Logger;
+}
+
+export interface VoiceTool {
+  definition: ToolDefinition;
+  // Whether the speaker may use the tool; tools they can't use are never offered to the model
+  isAllowed?(ctx: ToolContext): boolean;
+  // The returned text is handed back to the model as the tool result
+  execute(args: Record<string, any>, ctx: ToolContext): Promise<string>;
+}
+
+export interface ToolPolicy {
+  enabled: boolean;
+  disabled: string[]; // tool names
+  roleIds: Record<string, string[]>; // tool name -> roles allowed to use it (Manage Server always may)
+}
+
+/**
+ * Tools the assistant can call during a reply. Hosts can register their own
+ * before starting calls; every call is checked against the speaker's permissions
+ * both when the tools are offered and again when the model invokes one.
+ */
+export class ToolRegistry {
+  private tools: Map<string, VoiceTool> = new Map();
+
+  register(tool: VoiceTool): this {
+    this.tools.set(tool.definition.name, tool);
+    return this;
+  }
+
+  unregister(name: string): this {
+    this.tools.delete(name);
+    return this;
+  }
+
+  get size(): number {
+    return this.tools.size;
+  }
+
+  available(ctx: ToolContext, policy: ToolPolicy): ToolDefinition[] {
+    if (!policy.enabled) return [];
+    return Array.from(this.tools.values())
+      .filter((tool) => this.isPermitted(tool, ctx, policy))
+      .map((tool) => tool.definition);
+  }
+
+  // Never throws: failures are reported to the model as the tool result so it can tell the user
+  async execute(call: ToolCall, ctx: ToolContext, policy: ToolPolicy): Promise<string> {
+    const tool = this.tools.get(call.name);
+    if (!tool || !policy.enabled) return `Error: unknown tool "${call.name}".`;
+
+    // Hardening: Re-check at call time; the model may name a tool it was never offered
+    if (!this.isPermitted(tool, ctx, policy)) {
+      ctx.logger.warn(`User ${ctx.member.id} is not allowed to use tool ${call.name}`);
+      return `Error: ${ctx.member.displayName} is not allowed to use ${call.name}.`;
+    }
+
+    let args: Record<string, any>;
+    try {
+      args = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+    } catch {
+      return 'Error: the arguments were not valid JSON.';
+    }
+
+    try {
+      ctx.logger.info(`Tool ${call.name} called for user ${ctx.member.id} on call ${ctx.call.id}`);
+      return await tool.execute(args ?? {}, ctx);
+    } catch (error) {
+      ctx.logger.error(`Tool ${call.name} failed`, { error: error instanceof Error ? error.message : 'Unknown error' });
+      return `Error: ${call.name} failed.`;
+    }
+  }
+
+  private isPermitted(tool: VoiceTool, ctx: ToolContext, policy: ToolPolicy): boolean {
+    const name = tool.definition.name;
+    if (policy.disabled.includes(name)) return false;
+
+    const roleIds = policy.roleIds[name] ?? [];
+    if (roleIds.length > 0
+      && !ctx.member.permissions.has(PermissionFlagsBits.ManageGuild)
+      && !roleIds.some((roleId) => ctx.member.roles.cache.has(roleId))) {
+      return false;
+    }
+
+    return tool.isAllowed?.(ctx) ?? true;
+  }
+}
+
+export const listChannelMembersTool: VoiceTool = {
+  definition: {
+    name: 'list_channel_members',
+    description: 'List the people currently in the voice channel.',
+    parameters: { type: 'object', properties: {} },
+  },
+  async execute(_args, ctx) {
+    const channel = await ctx.guild.channels.fetch(ctx.call.channelId);
+    if (!channel?.isVoiceBased()) return 'Error: the voice channel is unavailable.';
+    const names = channel.members.map((member) => member.user.bot ? `${member.displayName} (bot)` : member.displayName);
+    return names.length > 0 ? names.join(', ') : 'Nobody is in the channel.';
+  },
+};
+
+export const postTextMessageTool: VoiceTool = {
+  definition: {
+    name: 'post_text_message',
+    description: 'Post a message in the text channel, e.g. a link, a list or anything the user wants to read rather than hear.',
+    parameters: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'Message to post (Markdown allowed, up to 1800 characters)' },
+      },
+      required: ['text'],
+    },
+  },
+  // Hardening: The bot only posts where the speaker could post themselves
+  isAllowed(ctx) {
+    const channel = ctx.guild.channels.cache.get(ctx.textChannelId);
+    return !!channel?.permissionsFor(ctx.member)?.has(PermissionFlagsBits.SendMessages);
+  },
+  async execute(args, ctx) {
+    const text = typeof args.text === 'string' ? args.text.trim().slice(0, 1800) : '';
+    if (!text) return 'Error: text is required.';
+
+    const channel = await ctx.guild.channels.fetch(ctx.textChannelId);
+    if (!channel?.isTextBased()) return 'Error: the text channel is unavailable.';
+
+    await channel.send({
+      content: `${text}\n-# Requested by ${ctx.member.displayName}`,
+      // Hardening: Model output must never ping @everyone, roles or users
+      allowedMentions: { parse: [] },
+    });
+    return 'Posted.';
+  },
+};
+
+export const leaveCallTool: VoiceTool = {
+  definition: {
+    name: 'leave_call',
+    description: 'Leave the voice channel once the current reply has been spoken.',
+    parameters: { type: 'object', properties: {} },
+  },
+  isAllowed(ctx) {
+    return ctx.member.voice.channelId === ctx.call.channelId;
+  },
+  async execute(_args, ctx) {
+    ctx.call.endAfterReply();
+    return 'Leaving after this reply. Say goodbye briefly.';
+  },
+};
+
+export const setVoiceTool: VoiceTool = {
+  definition: {
+    name: 'set_voice',
+    description: 'Change the voice the assistant speaks with for the rest of the call.',
+    parameters: {
+      type: 'object',
+      properties: {
+        voice: { type: 'string', description: 'Voice name, or "default" to reset it' },
+      },
+      required: ['voice'],
+    },
+  },
+  async execute(args, ctx) {
+    const voice = typeof args.voice === 'string' ? args.voice.trim() : '';
+    // Hardening: Voice names go straight to the TTS backend
+    if (!isValidVoiceName(voice)) return 'Error: invalid voice name.';
+    ctx.call.setTtsVoice(voice === 'default' ? undefined : voice);
+    return voice === 'default' ? 'Voice reset to the default.' : `Voice set to ${voice}.`;
+  },
+};
+
+export function createDefaultToolRegistry(): ToolRegistry {
+  return new ToolRegistry()
+    .register(listChannelMembersTool)
+    .register(postTextMessageTool)
+    .register(leaveCallTool)
+    .register(setVoiceTool);
+}
@@ -8,3 +8,24 @@ export * from './types.js';
 export * from './DiscordCall.js';
 export * from './DiscordVoiceProvider.js';
 export * from './VoiceConversation.js';
+export * from './Backends.js';
+export * from './ActivationPolicy.js';
+export * from './CostLedger.js';
+export * from './RateLimiter.js';
+export * from './CallRecorder.js';
+export * from './TranscriptStore.js';
+export * from './SlashCommands.js';
+export * from './PresenceManager.js';
+export * from './VoiceActivityDetector.js';
+export * from './AudioConversion.js';
+export * from './VoiceTools.js';
+export * from './ConversationMemory.js';
+export * from './PlaybackQueue.js';
+export * from './AudioMixer.js';
+export * from './ConnectionManager.js';
+export * from './BotPool.js';
+export * from './Metrics.js';
+export * from './CallConfig.js';
+export * from './VoiceProfiles.js';
+export * from './Interpreter.js';
+export * from './Moderation.js';
@@ -1,4 +1,8 @@
 import { EventEmitter } from 'events';
+import { VadMode } from './VoiceActivityDetector.js';
+import { PlaybackEndReason, PlaybackKind } from './PlaybackQueue.js';
+import { CallMode } from './Interpreter.js';
+import { ModerationSource } from './Moderation.js';
 
 // Mock OpenClaw interfaces based on typical plugin architecture
 
@@ -11,6 +15,8 @@ export interface PluginContext {
   };
   config: {
     get(key: string): any;
+    keys?(): string[]; // lets misspelt options be reported at startup
+    onChange?(listener: () => void): void; // hosts that can edit config live; calls pick changes up without rejoining
   };
 }
 
@@ -25,6 +31,59 @@ export interface CallParams {
   guildId: string;
   selfMute?: boolean;
   selfDeaf?: boolean;
+  vadMode?: VadMode; // overrides `vad_mode` for this call
+  mode?: CallMode; // overrides `call_mode` for this call
+}
+
+export interface TranscriptEvent {
+  callId: string;
+  userId: string;
+  speakerName: string;
+  text: string;
+  startedAt: number; // epoch ms, from the utterance
+  endedAt: number;
+  addressed: boolean; // whether the utterance got (or is getting) a reply
+  blocked?: boolean; // blocked by moderation; `text` is then a placeholder
+}
+
+export interface ReplyEvent {
+  callId: string;
+  userId: string; // the user the reply is addressed to
+  speakerName: string; // the bot's name
+  text: string;
+  startedAt: number; // epoch ms; first reply audio queued
+  endedAt: number; // estimated from the length of the reply audio
+  interrupted: boolean;
+}
+
+export interface TranslationEvent {
+  callId: string;
+  userId: string; // the speaker being interpreted
+  speakerName: string;
+  sourceLanguage?: string; // ISO-639-1; absent when ASR couldn't tell
+  language: string; // the target language
+  sourceText: string;
+  text: string;
+  startedAt: number; // epoch ms, from the utterance
+  endedAt: number;
+}
+
+export interface ModerationEvent {
+  callId: string;
+  userId: string; // who spoke, or who the reply was for
+  speakerName: string;
+  source: ModerationSource;
+  text: string; // the flagged transcript or reply sentence
+  categories: string[];
+  blocked: boolean;
+  at: number; // epoch ms
+}
+
+export interface PlaybackEvent {
+  callId: string;
+  id: string; // playback ID, as returned by `sendAudio`
+  kind: PlaybackKind | 'background'; // `background`: a track from `playFile`/`playStream` with `background: true`
+  reason?: PlaybackEndReason; // `playbackEnd` only
 }
 
 export interface CallSession extends EventEmitter {
@@ -32,6 +91,22 @@ export interface CallSession extends EventEmitter {
   status: 'connecting' | 'connected' | 'disconnected' | 'error';
   sendAudio(audioData: Buffer): void; // Expects PCM or Opus depending on impl
   end(): Promise<void>;
+
+  on(event: 'transcript', listener: (event: TranscriptEvent) => void): this;
+  on(event: 'reply', listener: (event: ReplyEvent) => void): this;
+  on(event: 'translation', listener: (event: TranslationEvent) => void): this;
+  on(event: 'moderation', listener: (event: ModerationEvent) => void): this;
+  on(event: 'audio', listener: (packet: AudioPacket) => void): this;
+  on(event: 'playbackStart' | 'playbackEnd', listener: (event: PlaybackEvent) => void): this;
+  on(event: string | symbol, listener: (...args: any[]) => void): this;
+
+  once(event: 'transcript', listener: (event: TranscriptEvent) => void): this;
+  once(event: 'reply', listener: (event: ReplyEvent) => void): this;
+  once(event: 'translation', listener: (event: TranslationEvent) => void): this;
+  once(event: 'moderation', listener: (event: ModerationEvent) => void): this;
+  once(event: 'audio', listener: (packet: AudioPacket) => void): this;
+  once(event: 'playbackStart' | 'playbackEnd', listener: (event: PlaybackEvent) => void): this;
+  once(event: string | symbol, listener: (...args: any[]) => void): this;
 }
 
 export interface AudioPacket {
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CALL_SETTINGS, ConfigError, resolveCallSettings, validateConfig } from '../src/CallConfig.js';
+
+function source(config: Record<string, any>) {
+  return { get: (key: string) => config[key], keys: () => Object.keys(config) };
+}
+
+test('unset options resolve to their defaults', () => {
+  const settings = resolveCallSettings(source({}));
+
+  assert.equal(settings.speechEnergyThreshold, CALL_SETTINGS.speechEnergyThreshold.default);
+  assert.equal(settings.vadMode, 'adaptive');
+  assert.deepEqual(settings.transcriptFormats, ['jsonl', 'srt', 'vtt']);
+  assert.equal(settings.ttsVoice, undefined);
+});
+
+test('invalid values are all reported instead of falling back to defaults', () => {
+  const config = source({ speech_energy_threshold: 5, speech_silence_ms: '800', barge_in: 'loud', transcript_formats: ['srt', 'txt'] });
+
+  assert.throws(() => resolveCallSettings(config), (error: unknown) => {
+    assert.ok(error instanceof ConfigError);
+    assert.deepEqual(error.issues, [
+      'speech_energy_threshold must be between 0 and 1 (got 5)',
+      'speech_silence_ms must be a number (got "800")',
+      'barge_in must be one of "off", "stop", "duck" (got "loud")',
+      'transcript_formats may only contain "jsonl", "srt", "vtt" (got "txt")',
+    ]);
+    return true;
+  });
+});
+
+test('channel overrides win over guild overrides, which win over the top level', () => {
+  const config = source({
+    assistant_prompt: 'base',
+    tts_voice: 'alloy',
+    barge_in: 'off',
+    guild_overrides: { g1: { assistant_prompt: 'guild', tts_voice: 'onyx' } },
+    channel_overrides: { c1: { assistant_prompt: 'channel' } },
+  });
+
+  const inChannel = resolveCallSettings(config, { guildId: 'g1', channelId: 'c1' });
+  assert.equal(inChannel.assistantPrompt, 'channel');
+  assert.equal(inChannel.ttsVoice, 'onyx');
+  assert.equal(inChannel.bargeIn, 'off');
+
+  const elsewhere = resolveCallSettings(config, { guildId: 'g1', channelId: 'c2' });
+  assert.equal(elsewhere.assistantPrompt, 'guild');
+
+  const otherGuild = resolveCallSettings(config, { guildId: 'g2', channelId: 'c3' });
+  assert.equal(otherGuild.assistantPrompt, 'base');
+  assert.equal(otherGuild.ttsVoice, 'alloy');
+});
+
+test('validation checks override blocks and names where a bad value came from', () => {
+  const check = validateConfig(source({
+    memory_max_turns: 11,
+    guild_overrides: { g1: { memory_keep_turns: 12, discord_token: 'x' } },
+    channel_overrides: { c1: { speech_silence_ms: -1 }, c2: 'loud' },
+  }));
+
+  assert.deepEqual(check.errors.sort(), [
+    'channel_overrides.c1.speech_silence_ms must be between 20 and 10000 (got -1)',
+    'channel_overrides.c2 must be an object of options',
+    "guild_overrides.g1.discord_token can't be overridden here",
+    'guild_overrides.g1.memory_keep_turns (12) must not exceed memory_max_turns (11)',
+  ]);
+});
+
+test('misspelt options are warned about with the closest known name', () => {
+  const check = validateConfig(source({ speech_silense_ms: 500, my_backend_option: true }));
+
+  assert.deepEqual(check.errors, []);
+  assert.deepEqual(check.warnings, [
+    'Unknown option speech_silense_ms (did you mean "speech_silence_ms"?)',
+    'Unknown option my_backend_option',
+  ]);
+});
+
+test('moderation patterns must compile, and notifying needs a moderator channel', () => {
+  const check = validateConfig(source({ moderation: true, moderation_patterns: ['ok', '(unclosed'], moderation_actions: ['notify'] }));
+
+  assert.deepEqual(check.errors, [
+    'moderation_patterns has an invalid regular expression (got "(unclosed")',
+    'moderation_actions includes "notify", so moderation_channel_id must be set',
+  ]);
+});
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CallRecorder } from '../src/CallRecorder.js';
+import { durationMs, testContext, tone } from './harness/index.js';
+
+test('a track that can\'t be written is marked failed and left out of the mixdown', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'discord-voice-recorder-'));
+  const { logger, logs } = testContext();
+  try {
+    const recorder = new CallRecorder({ callId: 'call', guildId: 'guild', channelId: 'channel' }, { directory }, logger);
+    await recorder.start();
+    // Alice's track file can't be created, as if the disk refused it; Bob's can
+    await mkdir(join(directory, 'user-alice.wav'));
+
+    const startedAt = Date.now();
+    recorder.writeUser('alice', tone(400), startedAt + 400);
+    recorder.writeUser('bob', tone(400), startedAt + 400);
+    recorder.writeUser('alice', tone(200), startedAt + 600);
+    const manifest = await recorder.stop();
+
+    const byUser = new Map(manifest.tracks.map((track) => [track.userId, track]));
+    assert.equal(byUser.get('alice')?.failed, true);
+    assert.equal(byUser.get('bob')?.failed, undefined);
+    assert.ok(logs.some((log) => log.level === 'error' && log.msg.includes('Recording track user-alice failed')));
+
+    const mixdown = await readFile(manifest.mixdown!);
+    assert.ok(Math.abs(durationMs(mixdown.subarray(44)) - 400) <= 20, 'only the complete track is mixed down');
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,93 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { backoffDelay } from '../src/ConnectionManager.js';
+import { TestCall, audibleMs, startTestCall, tone, waitFor } from './harness/index.js';
+
+let current: TestCall | null = null;
+
+afterEach(async () => {
+  await current?.close();
+  current = null;
+});
+
+test('a dropped connection is resumed and queued audio plays afterwards', async () => {
+  current = await startTestCall();
+  const { call, gateway } = current;
+  const statuses: string[] = [];
+  const reconnects: number[] = [];
+  call.on('status', (status) => statuses.push(status));
+  call.on('reconnecting', (event) => reconnects.push(event.attempt));
+
+  // The voice server goes away and doesn't answer the first rejoin
+  gateway.autoReady = false;
+  gateway.drop(4000);
+  await waitFor(() => call.status === 'connecting', 'the call to notice the drop');
+
+  assert.ok(call.sendAudio(tone(300)));
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  assert.equal(gateway.played.length, 0, 'nothing plays while disconnected');
+
+  gateway.autoReady = true;
+  await waitFor(() => call.status === 'connected', 'the call to reconnect');
+  await waitFor(() => audibleMs(gateway.playedPcm()) >= 280, 'the queued audio to play');
+
+  assert.deepEqual(statuses, ['connecting', 'connected']);
+  assert.deepEqual(reconnects, [1]);
+  assert.equal(gateway.channelId, call.channelId);
+});
+
+test('a kicked bot ends the call instead of rejoining', async () => {
+  current = await startTestCall();
+  const { call, gateway } = current;
+  let closedReason: string | undefined;
+  call.on('connectionClosed', (event) => (closedReason = event.reason));
+  const joinsBefore = gateway.payloads.filter((payload) => payload.d.channel_id).length;
+
+  gateway.drop(4014);
+  await waitFor(() => call.status === 'disconnected', 'the call to end');
+
+  assert.equal(closedReason, 'kicked');
+  assert.equal(gateway.payloads.filter((payload) => payload.d.channel_id).length, joinsBefore, 'no rejoin was attempted');
+  assert.equal(gateway.channelId, null);
+});
+
+test('the call ends once every retry has failed', async () => {
+  current = await startTestCall({ config: { reconnect_max_attempts: 2, reconnect_timeout_ms: 100 } });
+  const { call, gateway } = current;
+  let closedReason: string | undefined;
+  const reconnects: number[] = [];
+  call.on('connectionClosed', (event) => (closedReason = event.reason));
+  call.on('reconnecting', (event) => reconnects.push(event.attempt));
+
+  gateway.autoReady = false;
+  gateway.drop(4000);
+  await waitFor(() => call.status === 'disconnected', 'the call to give up');
+
+  assert.equal(closedReason, 'retries-exhausted');
+  assert.deepEqual(reconnects, [1, 2]);
+});
+
+test('the call follows the bot when someone moves it', async () => {
+  current = await startTestCall({ guild: { channelIds: ['300000000000000001', '300000000000000002'] } });
+  const { call, gateway } = current;
+  const moves: string[] = [];
+  call.on('moved', (event) => moves.push(event.channelId));
+
+  gateway.moveBot('300000000000000002');
+  await waitFor(() => moves.length > 0, 'the move to be noticed');
+
+  assert.deepEqual(moves, ['300000000000000002']);
+  assert.equal(call.channelId, '300000000000000002');
+  assert.equal(call.status, 'connected');
+});
+
+test('retry delays grow exponentially up to the cap, with jitter below it', () => {
+  const options = { baseDelayMs: 1000, maxDelayMs: 5000 };
+  for (let attempt = 1; attempt <= 6; attempt++) {
+    const cap = Math.min(5000, 1000 * 2 ** (attempt - 1));
+    for (let i = 0; i < 20; i++) {
+      const delay = backoffDelay(attempt, options);
+      assert.ok(delay >= 0 && delay <= cap, `attempt ${attempt}: ${delay}ms within 0-${cap}ms`);
+    }
+  }
+});
@@ -0,0 +1,442 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { createDefaultBackendRegistry } from '../src/Backends.js';
+import { RateLimiter } from '../src/RateLimiter.js';
+import { ModerationEvent, PlaybackEvent, ReplyEvent, TranscriptEvent, TranslationEvent } from '../src/types.js';
+import { OpenAIClient } from '../src/VoiceConversation.js';
+import { VoiceProfileStore } from '../src/VoiceProfiles.js';
+import { TestCall, audibleMs, durationMs, silence, sleep, speechWav, startTestCall, testContext, tone, waitFor } from './harness/index.js';
+
+const ALICE = '400000000000000001';
+
+let current: TestCall | null = null;
+
+afterEach(async () => {
+  await current?.close();
+  current = null;
+});
+
+test('a spoken question is transcribed, answered and played back', async () => {
+  current = await startTestCall({
+    guild: { members: { [ALICE]: 'Alice' } },
+    handlers: {
+      transcribe: () => 'What time is it?',
+      chat: () => 'It is noon right now in London. Is there anything else?',
+      speechMs: () => 400,
+    },
+  });
+  const { call, gateway, stub, metrics } = current;
+
+  const transcripts: TranscriptEvent[] = [];
+  const replies: ReplyEvent[] = [];
+  const playbackEnds: PlaybackEvent[] = [];
+  call.on('transcript', (event) => transcripts.push(event));
+  call.on('reply', (event) => replies.push(event));
+  call.on('playbackEnd', (event) => playbackEnds.push(event));
+
+  await gateway.speak(ALICE, Buffer.concat([tone(600), silence(100)]));
+  // One playback item per synthesized sentence
+  await waitFor(() => replies.length > 0 && playbackEnds.length === 2, 'the reply to finish playing', 10000);
+
+  assert.equal(transcripts.length, 1);
+  assert.equal(transcripts[0].speakerName, 'Alice');
+  assert.equal(transcripts[0].text, 'What time is it?');
+  assert.equal(transcripts[0].addressed, true);
+
+  // ASR got a 16 kHz WAV of the utterance
+  const [transcription] = stub.requestsTo('transcriptions');
+  assert.ok(transcription.body.includes(Buffer.from('RIFF')));
+
+  // The chat model saw the question, and streamed its answer
+  const [chat] = stub.requestsTo('chat');
+  assert.equal(chat.json.stream, true);
+  assert.deepEqual(chat.json.messages.at(-1), { role: 'user', content: 'What time is it?' });
+
+  assert.equal(replies.length, 1);
+  assert.equal(replies[0].text, 'It is noon right now in London. Is there anything else?');
+  assert.equal(replies[0].interrupted, false);
+  assert.deepEqual(playbackEnds.map((event) => [event.kind, event.reason]), [['reply', 'finished'], ['reply', 'finished']]);
+
+  // What the audio player sent is the synthesized reply: every sentence, and nothing else audible.
+  // The mixer reads ahead of the player, so playback events come a little before the audio is sent.
+  const spoken = stub.requestsTo('speech').map((request) => request.json.input);
+  assert.deepEqual(spoken, ['It is noon right now in London.', 'Is there anything else?']);
+  const expectedMs = spoken.length * 400;
+  await waitFor(() => audibleMs(gateway.playedPcm()) >= expectedMs - 40, 'the reply audio to be sent');
+  await waitFor(() => Date.now() - gateway.played.at(-1)!.at > 200, 'the player to go quiet');
+  const played = gateway.playedPcm();
+  if (gateway.codec.lossless) assert.ok(Math.abs(durationMs(played) - expectedMs) <= 40, `played ${durationMs(played)}ms`);
+  assert.ok(Math.abs(audibleMs(played) - expectedMs) <= 60, `audible ${audibleMs(played)}ms of ${expectedMs}ms`);
+
+  const stages = metrics.stageLatency.collect().samples.map((sample) => sample.labels.stage);
+  for (const stage of ['vad', 'queue', 'resample', 'asr', 'chat', 'tts', 'decode']) {
+    assert.ok(stages.includes(stage), `${stage} latency was recorded`);
+  }
+});
+
+test('utterances beyond the processing queue are dropped and counted', async () => {
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => (release = resolve));
+  current = await startTestCall({
+    handlers: {
+      // Hold the first transcription so everything after it has to queue; nothing gets a reply
+      transcribe: async () => {
+        await released;
+        return '';
+      },
+    },
+  });
+  const { call, gateway, stub, metrics, context } = current;
+
+  // Twelve people talk at once: one utterance is processed, ten wait, one doesn't fit
+  const speakers = Array.from({ length: 12 }, (_, i) => String(500000000000000000n + BigInt(i)));
+  await Promise.all(speakers.map((userId) => gateway.speak(userId, Buffer.concat([tone(300), silence(100)]))));
+  await waitFor(() => context.logs.some((log) => log.msg.includes('Processing queue full')), 'an utterance to be dropped');
+
+  assert.equal(call.getStatus().pendingUtterances, 10);
+  const dropped = metrics.droppedUtterances.collect().samples;
+  assert.deepEqual(dropped, [{ labels: { reason: 'queue_full' }, value: 1 }]);
+
+  release();
+  await waitFor(() => stub.requestsTo('transcriptions').length === 11 && call.getStatus().pendingUtterances === 0, 'the queue to drain');
+});
+
+test('host audio is queued, played and reported in order', async () => {
+  current = await startTestCall();
+  const { call, gateway } = current;
+  const events: string[] = [];
+  call.on('playbackStart', (event) => events.push(`start ${event.id}`));
+  call.on('playbackEnd', (event) => events.push(`end ${event.id} ${event.reason}`));
+
+  assert.equal(call.sendAudio(tone(200), { id: 'first' }), 'first');
+  assert.equal(call.sendAudio(tone(200), { id: 'second' }), 'second');
+  await waitFor(() => events.length === 4, 'both items to play');
+  await waitFor(() => audibleMs(gateway.playedPcm()) >= 380, 'the audio to be sent');
+
+  assert.deepEqual(events, ['start first', 'end first finished', 'start second', 'end second finished']);
+});
+
+test('reloaded settings apply to the live call, channel overrides included', async () => {
+  current = await startTestCall({
+    guild: { members: { [ALICE]: 'Alice' } },
+    handlers: {
+      transcribe: () => 'Who are you?',
+      chat: () => 'I am the captain of this ship.',
+      speechMs: () => 200,
+    },
+  });
+  const { call, gateway, stub, config } = current;
+
+  config.channel_overrides = { [call.channelId]: { assistant_prompt: 'You are a pirate.', tts_voice: 'onyx' } };
+  call.reloadConfig();
+
+  await gateway.speak(ALICE, Buffer.concat([tone(600), silence(100)]));
+  await waitFor(() => stub.requestsTo('speech').length > 0, 'the reply to be synthesized');
+
+  const [chat] = stub.requestsTo('chat');
+  assert.ok(chat.json.messages[0].content.startsWith('You are a pirate.'));
+  assert.equal(stub.requestsTo('speech')[0].json.voice, 'onyx');
+  assert.equal(call.getStatus().ttsVoice, 'onyx');
+});
+
+test('an invalid configuration is not applied to a live call', async () => {
+  current = await startTestCall({ config: { tts_voice: 'alloy' } });
+  const { call, config, context } = current;
+
+  config.tts_voice = 'onyx';
+  config.speech_energy_threshold = 5;
+  call.reloadConfig();
+
+  assert.equal(call.getStatus().ttsVoice, 'alloy');
+  assert.ok(context.logs.some((log) => log.level === 'error' && log.msg.includes('Configuration not applied')));
+});
+
+test('the speaker\'s voice profile sets the language, voice, speed, pronunciations and persona', async () => {
+  const profiles = new VoiceProfileStore({}, testContext().logger);
+  profiles.set('user', ALICE, { language: 'de', voice: 'nova', speed: 1.5, lexicon: { Aoife: 'Eefa' }, persona: 'Keep it short.' });
+  current = await startTestCall({
+    guild: { members: { [ALICE]: 'Alice' } },
+    handlers: {
+      transcribe: () => 'Wer bist du?',
+      chat: () => 'Hello Aoife, I am your assistant.',
+      speechMs: () => 200,
+    },
+    callOptions: { profiles },
+  });
+  const { gateway, stub } = current;
+
+  await gateway.speak(ALICE, Buffer.concat([tone(600), silence(100)]));
+  await waitFor(() => stub.requestsTo('speech').length > 0, 'the reply to be synthesized');
+
+  const [transcription] = stub.requestsTo('transcriptions');
+  assert.ok(transcription.body.includes(Buffer.from('name="language"\r\n\r\nde')));
+  const [chat] = stub.requestsTo('chat');
+  assert.ok(chat.json.messages[0].content.includes('Keep it short.'));
+  const [speech] = stub.requestsTo('speech');
+  assert.equal(speech.json.input, 'Hello Eefa, I am your assistant.');
+  assert.equal(speech.json.voice, 'nova');
+  assert.equal(speech.json.speed, 1.5);
+});
+
+test('in interpreter mode each utterance is translated and spoken in the speaker\'s voice', async () => {
+  current = await startTestCall({
+    guild: { members: { [ALICE]: 'Alice' } },
+    config: {
+      call_mode: 'interpreter',
+      interpreter_languages: ['en', 'de', 'fr'],
+      interpreter_voices: ['nova', 'onyx'],
+      interpreter_captions: true,
+    },
+    handlers: {
+      transcribe: () => ({ text: 'Guten Morgen zusammen', language: 'german' }),
+      chat: (request) => (request.json.messages[0].content.includes('into French') ? 'Bonjour à tous' : 'Good morning, everyone'),
+      speechMs: () => 200,
+    },
+  });
+  const { call, gateway, stub } = current;
+
+  const translations: TranslationEvent[] = [];
+  const replies: ReplyEvent[] = [];
+  const playbackEnds: PlaybackEvent[] = [];
+  call.on('translation', (event) => translations.push(event));
+  call.on('reply', (event) => replies.push(event));
+  call.on('playbackEnd', (event) => playbackEnds.push(event));
+
+  await gateway.speak(ALICE, Buffer.concat([tone(600), silence(100)]));
+  await waitFor(() => playbackEnds.length === 2 && gateway.messages.length === 1, 'both translations to play', 10000);
+
+  // The language was detected, so nothing was translated into German
+  const [transcription] = stub.requestsTo('transcriptions');
+  assert.ok(transcription.body.includes(Buffer.from('verbose_json')));
+  assert.deepEqual(translations.map((event) => [event.sourceLanguage, event.language, event.text]), [
+    ['de', 'en', 'Good morning, everyone'],
+    ['de', 'fr', 'Bonjour à tous'],
+  ]);
+
+  const speech = stub.requestsTo('speech').map((request) => [request.json.input, request.json.voice]);
+  assert.deepEqual(speech, [['Good morning, everyone', 'nova'], ['Bonjour à tous', 'nova']]);
+  assert.equal(replies.length, 0);
+  assert.ok(stub.requestsTo('chat').every((request) => !request.json.stream));
+
+  assert.equal(gateway.messages[0].content, '**Alice** (de → en): Good morning, everyone\n**Alice** (de → fr): Bonjour à tous');
+  assert.deepEqual(gateway.messages[0].allowedMentions, { parse: [] });
+  assert.equal(call.getStatus().mode, 'interpreter');
+});
+
+test('a reply blocked by moderation is never synthesized or played, and moderators are notified', async () => {
+  current = await startTestCall({
+    guild: { members: { [ALICE]: 'Alice' }, channelIds: ['300000000000000001', '300000000000000002'] },
+    config: {
+      moderation: true,
+      moderation_backend: 'openai',
+      moderation_actions: ['canned', 'notify'],
+      moderation_canned_response: 'Let us talk about something else.',
+      moderation_channel_id: '300000000000000002',
+    },
+    handlers: {
+      transcribe: () => 'Tell me a story.',
+      chat: () => 'Once upon a time there was a dragon. The dragon said something nasty about you.',
+      moderate: (text) => (text.includes('nasty') ? ['harassment'] : []),
+      speechMs: () => 200,
+    },
+  });
+  const { call, gateway, stub, metrics } = current;
+
+  const incidents: ModerationEvent[] = [];
+  const playbackEnds: PlaybackEvent[] = [];
+  call.on('moderation', (event) => incidents.push(event));
+  call.on('playbackEnd', (event) => playbackEnds.push(event));
+
+  await gateway.speak(ALICE, Buffer.concat([tone(600), silence(100)]));
+  await waitFor(() => playbackEnds.length === 2 && gateway.messages.length === 1, 'the reply and canned response to play', 10000);
+
+  // The transcript and each sentence were checked before anything was said
+  const moderated = stub.requestsTo('moderations').map((request) => request.json.input);
+  assert.deepEqual(moderated, ['Tell me a story.', 'Once upon a time there was a dragon.', 'The dragon said something nasty about you.']);
+  const spoken = stub.requestsTo('speech').map((request) => request.json.input);
+  assert.deepEqual(spoken, ['Once upon a time there was a dragon.', 'Let us talk about something else.']);
+  assert.deepEqual(playbackEnds.map((event) => event.kind), ['reply', 'cue']);
+
+  assert.equal(incidents.length, 1);
+  assert.equal(incidents[0].source, 'reply');
+  assert.deepEqual(incidents[0].categories, ['harassment']);
+  assert.equal(incidents[0].blocked, true);
+
+  const [notice] = gateway.messages;
+  assert.equal(notice.channelId, '300000000000000002');
+  assert.ok(notice.content.includes('> The dragon said something nasty about you.'));
+  assert.deepEqual(notice.allowedMentions, { parse: [] });
+  assert.deepEqual(metrics.moderationIncidents.collect().samples, [{ labels: { source: 'reply', outcome: 'blocked' }, value: 1 }]);
+});
+
+test('the interpreter detects each speaker\'s language even when speech_language is set', async () => {
+  const BOB = '400000000000000002';
+  const transcripts = [{ text: 'Guten Morgen', language: 'german' }, { text: 'Bonjour', language: 'french' }];
+  current = await startTestCall({
+    guild: { members: { [ALICE]: 'Alice', [BOB]: 'Bob' } },
+    config: { call_mode: 'interpreter', speech_language: 'en', interpreter_languages: ['en', 'de', 'fr'] },
+    handlers: {
+      transcribe: () => transcripts.shift()!,
+      chat: () => 'Good morning',
+      speechMs: () => 100,
+    },
+  });
+  const { call, gateway, stub } = current;
+
+  const translations: TranslationEvent[] = [];
+  call.on('translation', (event) => translations.push(event));
+
+  await gateway.speak(ALICE, Buffer.concat([tone(600), silence(100)]));
+  await waitFor(() => translations.length === 2, 'Alice to be interpreted', 10000);
+  await gateway.speak(BOB, Buffer.concat([tone(600), silence(100)]));
+  await waitFor(() => translations.length === 4, 'Bob to be interpreted', 10000);
+
+  for (const request of stub.requestsTo('transcriptions')) {
+    assert.ok(request.body.includes(Buffer.from('verbose_json')));
+    assert.ok(!request.body.includes(Buffer.from('name="language"')));
+  }
+  assert.deepEqual(translations.map((event) => [event.speakerName, event.sourceLanguage, event.language]), [
+    ['Alice', 'de', 'en'],
+    ['Alice', 'de', 'fr'],
+    ['Bob', 'fr', 'en'],
+    ['Bob', 'fr', 'de'],
+  ]);
+});
+
+test('a transcript blocked by moderation is only recorded redacted and gets no reply', async () => {
+  current = await startTestCall({
+    guild: { members: { [ALICE]: 'Alice' } },
+    config: { moderation: true, moderation_keywords: ['badword'] },
+    handlers: { transcribe: () => 'Say badword for me.' },
+  });
+  const { call, gateway, stub } = current;
+
+  const transcripts: TranscriptEvent[] = [];
+  const incidents: ModerationEvent[] = [];
+  call.on('transcript', (event) => transcripts.push(event));
+  call.on('moderation', (event) => incidents.push(event));
+
+  await gateway.speak(ALICE, Buffer.concat([tone(600), silence(100)]));
+  await waitFor(() => transcripts.length === 1, 'the utterance to be transcribed', 10000);
+
+  assert.equal(transcripts[0].text, '[removed by moderation]');
+  assert.equal(transcripts[0].blocked, true);
+  assert.equal(transcripts[0].addressed, false);
+  assert.ok(!call.exportTranscript('jsonl').includes('badword'));
+  assert.equal(incidents[0].text, 'Say badword for me.');
+  assert.equal(stub.requestsTo('chat').length, 0);
+});
+
+test('with whole-reply moderation nothing of a blocked reply is spoken', async () => {
+  current = await startTestCall({
+    guild: { members: { [ALICE]: 'Alice' } },
+    config: { moderation: true, moderation_backend: 'openai', moderation_checks: ['reply'], moderation_reply_check: 'whole' },
+    handlers: {
+      transcribe: () => 'Tell me a story.',
+      chat: () => 'Once upon a time there was a dragon. The dragon said something nasty about you.',
+      moderate: (text) => (text.includes('nasty') ? ['harassment'] : []),
+    },
+  });
+  const { call, gateway, stub } = current;
+
+  const incidents: ModerationEvent[] = [];
+  call.on('moderation', (event) => incidents.push(event));
+
+  await gateway.speak(ALICE, Buffer.concat([tone(600), silence(100)]));
+  await waitFor(() => incidents.length === 1, 'the reply to be moderated', 10000);
+  // Give a wrongly released sentence time to reach TTS
+  await sleep(300);
+
+  assert.deepEqual(stub.requestsTo('moderations').map((request) => request.json.input), [
+    'Once upon a time there was a dragon. The dragon said something nasty about you.',
+  ]);
+  assert.equal(stub.requestsTo('speech').length, 0);
+});
+
+test('the recording\'s bot track has background audio mixed with queued audio', async () => {
+  current = await startTestCall();
+  const { call, gateway } = current;
+  const directory = await mkdtemp(join(tmpdir(), 'discord-voice-recording-'));
+  try {
+    assert.equal(await call.startRecording({ directory, announcement: false }), true);
+    const ended: string[] = [];
+    call.on('playbackEnd', (event: PlaybackEvent) => ended.push(event.id));
+
+    call.playStream(Readable.from([tone(600)]), { raw: true, background: true, id: 'music' });
+    call.sendAudio(tone(200), { id: 'notice' });
+    await waitFor(() => ended.includes('music') && ended.includes('notice'), 'both to play');
+    await waitFor(() => gateway.played.length > 0 && Date.now() - gateway.played.at(-1)!.at > 200, 'the player to go quiet');
+
+    const manifest = await call.stopRecording();
+    const bot = manifest!.tracks.find((track) => track.kind === 'bot');
+    assert.ok(bot, 'a bot track is recorded');
+    const pcm = (await readFile(bot.file)).subarray(44);
+    assert.ok(audibleMs(pcm) >= 550, `recorded ${audibleMs(pcm)}ms of audio`);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test('guild_backends routes a guild to a backend registered on the registry', async () => {
+  const guildId = '100000000000000009';
+  const synthesized: Array<{ text: string; guildId: string; voice: string }> = [];
+  const backends = createDefaultBackendRegistry().registerTextToSpeech('canned', (ctx) => ({
+    synthesize: async (text) => {
+      synthesized.push({ text, guildId: ctx.guildId, voice: ctx.config.get('canned_voice') });
+      return speechWav(300);
+    },
+  }));
+  current = await startTestCall({
+    guild: { guildId },
+    config: { guild_backends: { [guildId]: { tts_backend: 'canned', canned_voice: 'robot' } } },
+    handlers: { transcribe: () => 'Hello there?', chat: () => 'Hi.' },
+    callOptions: { backends },
+  });
+  const { call, gateway, stub, context } = current;
+  const ended: PlaybackEvent[] = [];
+  call.on('playbackEnd', (event) => ended.push(event));
+
+  await gateway.speak(ALICE, Buffer.concat([tone(600), silence(100)]));
+  await waitFor(() => ended.length === 1, 'the reply to play', 10000);
+
+  // The overridden stage uses the registered backend with the guild's config; the others stay on the stub
+  assert.deepEqual(synthesized, [{ text: 'Hi.', guildId, voice: 'robot' }]);
+  assert.equal(stub.requestsTo('speech').length, 0);
+  assert.equal(stub.requestsTo('chat').length, 1);
+  assert.ok(backends.resolve(context, '100000000000000001').textToSpeech instanceof OpenAIClient, 'other guilds keep the default');
+});
+
+test('only turns addressed to the bot take rate limit tokens', async () => {
+  const BOB = '400000000000000002';
+  const said = ['Did you watch the game?', 'Yes, it was great.', 'Hey bot, who won?', 'Hey bot, and the score?'];
+  current = await startTestCall({
+    config: { activation_mode: 'wake-word', wake_phrases: ['hey bot'] },
+    handlers: { transcribe: () => said.shift() ?? '', chat: () => 'The home team.' },
+    callOptions: { rateLimiter: new RateLimiter({ user: { capacity: 1, refillPerMinute: 1 }, guild: { capacity: 1, refillPerMinute: 1 } }) },
+  });
+  const { call, gateway, stub } = current;
+  const transcripts: TranscriptEvent[] = [];
+  const limited: unknown[] = [];
+  call.on('transcript', (event) => transcripts.push(event));
+  call.on('rateLimited', (event) => limited.push(event));
+
+  for (const [i, speaker] of [ALICE, BOB, ALICE].entries()) {
+    await gateway.speak(speaker, Buffer.concat([tone(400), silence(100)]));
+    await waitFor(() => transcripts.length === i + 1, `utterance ${i + 1} to be transcribed`, 10000);
+  }
+  await waitFor(() => stub.requestsTo('chat').length === 1, 'the addressed question to be answered');
+
+  // The chatter before it cost nothing, so the one token left was there for the question
+  assert.deepEqual(transcripts.map((event) => event.addressed), [false, false, true]);
+  assert.equal(limited.length, 0);
+
+  // The next question finds the buckets empty
+  await gateway.speak(BOB, Buffer.concat([tone(400), silence(100)]));
+  await waitFor(() => limited.length === 1, 'the second question to be throttled', 10000);
+  assert.equal(transcripts.length, 3, 'a throttled turn is recorded once it is processed');
+  assert.equal(stub.requestsTo('chat').length, 1);
+});
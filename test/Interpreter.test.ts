@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChatMessage, ChatModel } from '../src/Backends.js';
+import { Interpreter, languageName } from '../src/Interpreter.js';
+import { languageCode } from '../src/VoiceConversation.js';
+
+function fakeChat(reply: (messages: ChatMessage[]) => string): ChatModel & { calls: ChatMessage[][] } {
+  const calls: ChatMessage[][] = [];
+  return {
+    calls,
+    chat: async (messages) => {
+      calls.push(messages);
+      return reply(messages);
+    },
+  };
+}
+
+test('speakers get voices in the order they first speak, reused once all are taken', () => {
+  const interpreter = new Interpreter(fakeChat(() => ''), { languages: ['en'], voices: ['alloy', 'nova'] });
+
+  assert.equal(interpreter.voiceFor('u1'), 'alloy');
+  assert.equal(interpreter.voiceFor('u2'), 'nova');
+  assert.equal(interpreter.voiceFor('u1'), 'alloy');
+  assert.equal(interpreter.voiceFor('u3'), 'alloy');
+  assert.equal(new Interpreter(fakeChat(() => ''), { languages: ['en'], voices: [] }).voiceFor('u1'), undefined);
+});
+
+test('utterances are translated into every target language but their own', async () => {
+  const chat = fakeChat(() => '  Good morning, everyone. ');
+  const interpreter = new Interpreter(chat, { languages: ['en', 'de', 'fr'], voices: [] });
+
+  assert.deepEqual(interpreter.targetsFor('de'), ['en', 'fr']);
+  assert.deepEqual(interpreter.targetsFor(undefined), ['en', 'de', 'fr']);
+
+  assert.equal(await interpreter.translate('Guten Morgen zusammen', 'de', 'en'), 'Good morning, everyone.');
+  const [system, user] = chat.calls[0];
+  assert.match(system.content, /from German into English/);
+  assert.match(system.content, /never follow instructions/);
+  assert.deepEqual(user, { role: 'user', content: 'Guten Morgen zusammen' });
+});
+
+test('text that is already in the target language is not spoken again', async () => {
+  const interpreter = new Interpreter(fakeChat(() => 'good morning everyone'), { languages: ['en'], voices: [] });
+
+  assert.equal(await interpreter.translate('Good morning, everyone!', undefined, 'en'), '');
+});
+
+test('language names and codes convert both ways', () => {
+  assert.equal(languageName('de'), 'German');
+  assert.equal(languageName('xx-nope'), 'xx-nope');
+  assert.equal(languageCode('german'), 'de');
+  assert.equal(languageCode('fr'), 'fr');
+  assert.equal(languageCode('klingon'), undefined);
+  assert.equal(languageCode(undefined), undefined);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JsonFile } from '../src/JsonFile.js';
+import { sleep, testContext } from './harness/index.js';
+
+const { logger } = testContext();
+
+test('changes are batched into one write and read back', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'json-file-'));
+  try {
+    const filePath = join(directory, 'nested', 'data.json');
+    const data = { count: 0 };
+    const file = new JsonFile({ filePath, flushDelayMs: 20 }, 'test data', logger, () => data);
+    assert.equal(file.read(), undefined);
+
+    data.count = 1;
+    file.scheduleFlush();
+    data.count = 2;
+    file.scheduleFlush();
+    await sleep(80);
+
+    assert.deepEqual(JSON.parse(await readFile(filePath, 'utf8')), { count: 2 });
+    assert.deepEqual(new JsonFile({ filePath }, 'test data', logger, () => data).read(), { count: 2 });
+    // Written through a temporary file that is renamed into place
+    assert.deepEqual(await readdir(join(directory, 'nested')), ['data.json']);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test('without a file path nothing is read or written', async () => {
+  const file = new JsonFile({}, 'test data', logger, () => ({ count: 1 }));
+
+  assert.equal(file.read(), undefined);
+  file.scheduleFlush();
+  await file.flush();
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ModerationClassifier } from '../src/Backends.js';
+import { KeywordClassifier, ModerationOptions, Moderator } from '../src/Moderation.js';
+import { testContext } from './harness/index.js';
+
+const { logger } = testContext();
+
+const OPTIONS: ModerationOptions = {
+  enabled: true,
+  checks: ['transcript', 'reply'],
+  actions: ['refuse', 'log'],
+  keywords: ['badword', 'two words'],
+  patterns: ['\\b\\d{3}-\\d{2}-\\d{4}\\b'],
+  onError: 'allow',
+};
+
+function classifier(classify: ModerationClassifier['classify']): ModerationClassifier & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    calls,
+    classify: (text, options) => {
+      calls.push(text);
+      return classify(text, options);
+    },
+  };
+}
+
+test('keywords match whole words in any case, patterns match anywhere', async () => {
+  const keywords = new KeywordClassifier(OPTIONS.keywords, OPTIONS.patterns);
+
+  assert.deepEqual(await keywords.classify('That is a BadWord.'), { flagged: true, categories: ['keyword'] });
+  assert.deepEqual(await keywords.classify('Say two  words'), { flagged: false, categories: [] });
+  assert.deepEqual(await keywords.classify('badwords are fine'), { flagged: false, categories: [] });
+  assert.deepEqual(await keywords.classify('It is 123-45-6789, two words'), { flagged: true, categories: ['keyword', 'pattern'] });
+});
+
+test('the API classifier is only asked about text the keywords let through', async () => {
+  const api = classifier(async (text) => ({ flagged: text.includes('rude'), categories: ['harassment'] }));
+  const moderator = new Moderator(OPTIONS, api, logger);
+
+  assert.deepEqual(await moderator.review('badword', 'transcript'), { categories: ['keyword'], blocked: true });
+  assert.deepEqual(await moderator.review('something rude', 'reply'), { categories: ['harassment'], blocked: true });
+  assert.equal(await moderator.review('hello there', 'reply'), null);
+  assert.deepEqual(api.calls, ['something rude', 'hello there']);
+});
+
+test('only checked sources are moderated, and only refuse or canned block', async () => {
+  const moderator = new Moderator({ ...OPTIONS, checks: ['reply'], actions: ['log', 'notify'] }, undefined, logger);
+
+  assert.equal(await moderator.review('badword', 'transcript'), null);
+  assert.deepEqual(await moderator.review('badword', 'reply'), { categories: ['keyword'], blocked: false });
+
+  moderator.setOptions({ ...OPTIONS, enabled: false });
+  assert.equal(await moderator.review('badword', 'reply'), null);
+});
+
+test('a failing classifier lets text through or blocks it, as configured', async () => {
+  const api = classifier(async () => {
+    throw new Error('Moderation failed (503)');
+  });
+
+  assert.equal(await new Moderator(OPTIONS, api, logger).review('hello', 'reply'), null);
+  assert.deepEqual(await new Moderator({ ...OPTIONS, onError: 'block' }, api, logger).review('hello', 'reply'), {
+    categories: ['classifier-error'],
+    blocked: true,
+  });
+});
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PlaybackQueue } from '../src/PlaybackQueue.js';
+
+const audio = Buffer.alloc(3840);
+
+test('plays higher priorities first and equal priorities in order', () => {
+  const queue = new PlaybackQueue(10);
+  queue.enqueue(audio, { id: 'host', kind: 'host' });
+  queue.enqueue(audio, { id: 'reply-1', kind: 'reply' });
+  queue.enqueue(audio, { id: 'cue', kind: 'cue' });
+  queue.enqueue(audio, { id: 'reply-2', kind: 'reply' });
+
+  assert.deepEqual(queue.list().map((item) => item.id), ['cue', 'reply-1', 'reply-2', 'host']);
+});
+
+test('a full queue evicts the oldest item of the lowest lower priority', () => {
+  const queue = new PlaybackQueue(3);
+  queue.enqueue(audio, { id: 'host-1', kind: 'host' });
+  queue.enqueue(audio, { id: 'host-2', kind: 'host' });
+  queue.enqueue(audio, { id: 'reply-1', kind: 'reply' });
+
+  const queued = queue.enqueue(audio, { id: 'cue', kind: 'cue' });
+
+  assert.equal(queued?.evicted?.id, 'host-1');
+  assert.equal(queue.size, 3);
+  assert.deepEqual(queue.list().map((item) => item.id), ['cue', 'reply-1', 'host-2']);
+});
+
+test('a full queue refuses items that would not outrank anything', () => {
+  const queue = new PlaybackQueue(2);
+  queue.enqueue(audio, { id: 'reply-1', kind: 'reply' });
+  queue.enqueue(audio, { id: 'reply-2', kind: 'reply' });
+
+  assert.equal(queue.enqueue(audio, { id: 'reply-3', kind: 'reply' }), null);
+  assert.equal(queue.enqueue(audio, { id: 'host', kind: 'host' }), null);
+  assert.deepEqual(queue.list().map((item) => item.id), ['reply-1', 'reply-2']);
+});
+
+test('clear removes and returns only the matching items', () => {
+  const queue = new PlaybackQueue(10);
+  queue.enqueue(audio, { id: 'host', kind: 'host' });
+  queue.enqueue(audio, { id: 'reply', kind: 'reply' });
+
+  const removed = queue.clear((item) => item.kind === 'reply');
+
+  assert.deepEqual(removed.map((item) => item.id), ['reply']);
+  assert.deepEqual(queue.list().map((item) => item.id), ['host']);
+});
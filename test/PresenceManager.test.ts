@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { Client } from 'discord.js';
+import { DiscordCall } from '../src/DiscordCall.js';
+import { PresenceHost, PresenceManager } from '../src/PresenceManager.js';
+import { CallParams } from '../src/types.js';
+import { testContext, waitFor } from './harness/index.js';
+
+const GUILD = 'guild-1';
+const FOLLOWED = 'user-followed';
+
+interface FakeCall {
+  id: string;
+  guildId: string;
+  channelId: string;
+  status: string;
+  moves: string[];
+  moveTo(channelId: string): void;
+}
+
+function fakeCall(id: string, channelId: string): FakeCall {
+  return {
+    id,
+    guildId: GUILD,
+    channelId,
+    status: 'connected',
+    moves: [],
+    moveTo(target: string) {
+      this.moves.push(target);
+    },
+  };
+}
+
+// A host running `calls` that records what presence asks of it
+function fakeHost(calls: FakeCall[]) {
+  const started: CallParams[] = [];
+  const ended: string[] = [];
+  const host: PresenceHost = {
+    startCall: async (params) => {
+      started.push(params);
+      return {} as Awaited<ReturnType<PresenceHost['startCall']>>;
+    },
+    endCall: async (callId) => {
+      ended.push(callId);
+    },
+    listCalls: () => calls as unknown as DiscordCall[],
+  };
+  return { host, started, ended };
+}
+
+function voiceState(userId: string, channelId: string | null) {
+  return { id: userId, channelId, guild: { id: GUILD }, member: { user: { bot: false } } };
+}
+
+function presence(host: PresenceHost, config: Record<string, any>) {
+  const client = new EventEmitter() as EventEmitter & { user: { id: string } };
+  client.user = { id: 'bot' };
+  new PresenceManager(client as unknown as Client, host, testContext(config));
+  return (userId: string, from: string | null, to: string | null) => {
+    client.emit('voiceStateUpdate', voiceState(userId, from), voiceState(userId, to));
+  };
+}
+
+test('following a user moves and ends only the call they were in', async () => {
+  const other = fakeCall('call-a', 'channel-a');
+  const followed = fakeCall('call-b', 'channel-b');
+  const { host, ended } = fakeHost([other, followed]);
+  const move = presence(host, { presence: { follow_user_id: FOLLOWED } });
+
+  move(FOLLOWED, 'channel-b', 'channel-c');
+  await waitFor(() => followed.moves.length > 0, 'the followed call to move');
+  assert.deepEqual(followed.moves, ['channel-c']);
+  assert.deepEqual(other.moves, [], 'the unrelated call stays put');
+
+  followed.channelId = 'channel-c';
+  move(FOLLOWED, 'channel-c', null);
+  await waitFor(() => ended.length > 0, 'the followed call to end');
+  assert.deepEqual(ended, ['call-b']);
+});
+
+test('a followed user joining a channel without a call starts one beside the other calls', async () => {
+  const other = fakeCall('call-a', 'channel-a');
+  const { host, started, ended } = fakeHost([other]);
+  const move = presence(host, { presence: { follow_user_id: FOLLOWED } });
+
+  move(FOLLOWED, null, 'channel-b');
+  await waitFor(() => started.length > 0, 'a call to start');
+  assert.deepEqual(started, [{ guildId: GUILD, channelId: 'channel-b' }]);
+  assert.deepEqual(other.moves, []);
+
+  // Leaving a channel the bot isn't in ends nothing
+  move(FOLLOWED, 'channel-d', null);
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  assert.deepEqual(ended, []);
+});
+
+test('auto-join only skips channels that already have a call', async () => {
+  const { host, started } = fakeHost([fakeCall('call-a', 'channel-a')]);
+  const move = presence(host, { presence: { auto_join_user_ids: ['user-vip'] } });
+
+  move('user-vip', null, 'channel-a');
+  move('user-vip', 'channel-a', 'channel-b');
+  await waitFor(() => started.length > 0, 'a call to start');
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  assert.deepEqual(started, [{ guildId: GUILD, channelId: 'channel-b' }]);
+});
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AdaptiveVad } from '../src/VoiceActivityDetector.js';
+import { ConversationConfig, segmentPcm } from '../src/VoiceConversation.js';
+import { FRAME_BYTES, clicks, durationMs, mixPcm, noise, silence, tone } from './harness/index.js';
+
+const config: ConversationConfig = {
+  vadMode: 'energy',
+  energyThreshold: 0.02,
+  minUtteranceMs: 100,
+  silenceMs: 300,
+  maxUtteranceMs: 5000,
+  preRollMs: 100,
+};
+
+test('cuts utterances at pauses longer than the silence window', () => {
+  const pcm = Buffer.concat([silence(200), tone(600), silence(500), tone(400), silence(500)]);
+  const utterances = segmentPcm(pcm, config);
+
+  assert.equal(utterances.length, 2);
+  assert.deepEqual(utterances.map((u) => u.reason), ['silence', 'silence']);
+  // Each carries its pre-roll, the speech and the silence that ended it
+  assert.ok(Math.abs(utterances[0].startedAt - 100) <= 20, `first utterance starts at ${utterances[0].startedAt}`);
+  assert.ok(Math.abs(utterances[0].endedAt - 800) <= 20, `first utterance ends at ${utterances[0].endedAt}`);
+  assert.ok(Math.abs(utterances[1].startedAt - 1200) <= 20, `second utterance starts at ${utterances[1].startedAt}`);
+});
+
+test('keeps talking through pauses shorter than the silence window', () => {
+  const pcm = Buffer.concat([tone(400), silence(200), tone(400), silence(400)]);
+  const utterances = segmentPcm(pcm, config);
+
+  assert.equal(utterances.length, 1);
+  assert.ok(durationMs(utterances[0].pcm) >= 1000);
+});
+
+test('drops clicks shorter than the minimum utterance', () => {
+  const pcm = Buffer.concat([tone(40), silence(500), tone(500), silence(400)]);
+  const utterances = segmentPcm(pcm, config);
+
+  assert.equal(utterances.length, 1);
+  // Starts with the pre-roll before the real speech, not at the click
+  assert.ok(Math.abs(utterances[0].startedAt - 440) <= 20, `utterance starts at ${utterances[0].startedAt}`);
+});
+
+test('splits speech that runs past the maximum utterance length', () => {
+  const pcm = tone(2500);
+  const utterances = segmentPcm(pcm, { ...config, maxUtteranceMs: 1000 });
+
+  assert.deepEqual(utterances.map((u) => u.reason), ['max-utterance', 'max-utterance', 'stream-end']);
+  for (const utterance of utterances.slice(0, 2)) {
+    assert.ok(Math.abs(durationMs(utterance.pcm) - 1000) <= 20);
+  }
+});
+
+test('flushes whatever is pending when the stream ends', () => {
+  const utterances = segmentPcm(tone(500), config);
+
+  assert.equal(utterances.length, 1);
+  assert.equal(utterances[0].reason, 'stream-end');
+});
+
+const adaptive: ConversationConfig = { ...config, vadMode: 'adaptive' };
+
+test('adaptive VAD: the noise floor follows steady background noise', () => {
+  const vad = new AdaptiveVad();
+  const bed = noise(1000, 0.02);
+  for (let offset = 0; offset < bed.length; offset += FRAME_BYTES) vad.isSpeech(bed.subarray(offset, offset + FRAME_BYTES));
+  assert.ok(Math.abs(vad.noiseFloor - 0.02) <= 0.002, `noise floor ${vad.noiseFloor}`);
+
+  // Loud speech over the noise is found; the noise alone never is
+  const background = noise(3000, 0.02);
+  const loud = segmentPcm(mixPcm(background, Buffer.concat([silence(1000), tone(600), silence(1400)])), adaptive);
+  assert.equal(loud.length, 1);
+  assert.ok(Math.abs(loud[0].startedAt - 940) <= 20, `utterance starts at ${loud[0].startedAt}`);
+
+  // Quiet speech that counts on a silent line is drowned out by the raised floor, where a fixed threshold only hears the noise
+  const quiet = Buffer.concat([silence(1000), tone(600, { amplitude: 0.045 }), silence(1400)]);
+  assert.equal(segmentPcm(quiet, adaptive).length, 1);
+  assert.equal(segmentPcm(mixPcm(background, quiet), adaptive).length, 0);
+  assert.deepEqual(segmentPcm(mixPcm(background, quiet), config).map((u) => [u.startedAt, u.reason]), [[0, 'stream-end']]);
+});
+
+test('adaptive VAD: hiss and clicks are not speech', () => {
+  const pcm = Buffer.concat([silence(200), noise(800, 0.1), clicks(1000, 90), silence(300)]);
+
+  assert.equal(segmentPcm(pcm, adaptive).length, 0);
+  // As loud as speech, so the fixed threshold takes them for it
+  assert.equal(segmentPcm(pcm, config).length, 1);
+});
+
+test('adaptive VAD: speech is held through the hangover after it ends', () => {
+  const pcm = Buffer.concat([silence(200), tone(600), silence(600)]);
+
+  // The energy VAD ends the utterance with the last loud frame; the adaptive one holds it for ~160 ms more
+  const [plain] = segmentPcm(pcm, config);
+  const [held] = segmentPcm(pcm, adaptive);
+  const [shortHold] = segmentPcm(pcm, { ...adaptive, vadHangoverMs: 100 });
+  assert.ok(Math.abs(plain.endedAt - 800) <= 20, `energy VAD ends at ${plain.endedAt}`);
+  assert.ok(Math.abs(held.endedAt - plain.endedAt - 150) <= 20, `adaptive VAD ends at ${held.endedAt}`);
+  assert.ok(Math.abs(shortHold.endedAt - plain.endedAt - 90) <= 20, `shorter hangover ends at ${shortHold.endedAt}`);
+  assert.equal(held.reason, 'silence');
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { VoiceProfileStore, applyLexicon, isValidVoiceName, validateProfile } from '../src/VoiceProfiles.js';
+import { testContext } from './harness/index.js';
+
+const { logger } = testContext();
+
+test('a user profile is layered over role profiles from the lowest role up', () => {
+  const store = new VoiceProfileStore({}, logger);
+  store.set('role', 'everyone', { language: 'en', voice: 'alloy', lexicon: { Niamh: 'Neeve' } });
+  store.set('role', 'moderators', { voice: 'onyx', persona: 'Be formal.', lexicon: { Siobhan: 'Shivawn' } });
+  store.set('user', 'u1', { speed: 1.25, lexicon: { Niamh: 'Neev' } });
+
+  assert.deepEqual(store.resolve('u1', ['everyone', 'moderators']), {
+    language: 'en',
+    voice: 'onyx',
+    persona: 'Be formal.',
+    speed: 1.25,
+    lexicon: { Niamh: 'Neev', Siobhan: 'Shivawn' },
+  });
+  assert.deepEqual(store.resolve('u2', ['everyone']), { language: 'en', voice: 'alloy', lexicon: { Niamh: 'Neeve' } });
+  assert.deepEqual(store.resolve('u3'), {});
+});
+
+test('invalid profiles are refused', () => {
+  const store = new VoiceProfileStore({}, logger);
+
+  assert.deepEqual(validateProfile({ language: 'English', speed: 9, lexicon: { Aoife: '' } }), [
+    'language must be a two- or three-letter ISO-639 code, e.g. "en"',
+    'speed must be between 0.25 and 4',
+    'the pronunciation of "Aoife" must be 1-100 characters',
+  ]);
+  assert.throws(() => store.set('user', 'u1', { speed: 0 }), /speed must be between/);
+  // The same rule as the set_voice tool, so a profile can't hold a name the tool would refuse
+  assert.deepEqual(validateProfile({ voice: 'nova; shimmer' }), ['voice must be 1-50 letters, digits, "_" or "-"']);
+  assert.ok(isValidVoiceName('en-US_Neural2'));
+  assert.equal(store.get('user', 'u1'), undefined);
+});
+
+test('profiles are saved to and loaded from the profile file', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'voice-profiles-'));
+  try {
+    const filePath = join(directory, 'profiles.json');
+    const store = new VoiceProfileStore({ filePath }, logger);
+    store.set('user', 'u1', { language: 'de', voice: 'nova' });
+    await store.flush();
+
+    assert.equal(JSON.parse(await readFile(filePath, 'utf8')).users.u1.language, 'de');
+    const reloaded = new VoiceProfileStore({ filePath }, logger);
+    assert.deepEqual(reloaded.resolve('u1'), { language: 'de', voice: 'nova' });
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test('the lexicon respells whole words only, longest entries first', () => {
+  const lexicon = { Sean: 'Shawn', 'Sean Og': 'Shawn Ohg', Eoin: 'Owen' };
+
+  assert.equal(applyLexicon('Hi Sean Og, and hi sean.', lexicon), 'Hi Shawn Ohg, and hi Shawn.');
+  assert.equal(applyLexicon('Seance and Eoin\'s dog', lexicon), 'Seance and Owen\'s dog');
+  assert.equal(applyLexicon('Nothing to change', undefined), 'Nothing to change');
+});
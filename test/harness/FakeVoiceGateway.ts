@@ -0,0 +1,291 @@
+import { EventEmitter } from 'events';
+import {
+  DiscordGatewayAdapterCreator,
+  DiscordGatewayAdapterImplementerMethods,
+  DiscordGatewayAdapterLibraryMethods,
+  VoiceConnection,
+  VoiceConnectionReadyState,
+  VoiceConnectionStatus,
+  getVoiceConnection,
+} from '@discordjs/voice';
+import { Client } from 'discord.js';
+import { FRAME_BYTES, sleep } from './fixtures.js';
+import { OPUS_SILENCE_FRAME, OpusCodec, installOpusCodec } from './opus.js';
+
+export interface FakeGuildOptions {
+  guildId?: string;
+  channelIds?: string[]; // voice channels; the first is where calls usually start
+  members?: Record<string, string>; // user ID -> display name
+  botId?: string;
+  botName?: string;
+}
+
+export interface GatewayPayload {
+  op: number;
+  d: { guild_id: string; channel_id: string | null; self_deaf: boolean; self_mute: boolean };
+}
+
+export interface SentMessage {
+  channelId: string;
+  content: string;
+  allowedMentions?: { parse?: string[] };
+}
+
+export interface PlayedPacket {
+  at: number;
+  packet: Buffer;
+}
+
+type VoiceStateData = Parameters<DiscordGatewayAdapterLibraryMethods['onVoiceStateUpdate']>[0];
+
+// What @discordjs/voice uses of its networking layer, without a WebSocket or UDP socket behind it
+class FakeNetworking extends EventEmitter {
+  state: { code: number } = { code: NETWORKING_READY };
+  private prepared: Buffer | undefined;
+
+  constructor(private sink: (packet: Buffer) => void) {
+    super();
+  }
+
+  prepareAudioPacket(packet: Buffer): Buffer {
+    this.prepared = packet;
+    return packet;
+  }
+
+  dispatchAudio(): boolean {
+    if (!this.prepared) return false;
+    this.sink(this.prepared);
+    this.prepared = undefined;
+    return true;
+  }
+
+  setSpeaking(_speaking: boolean) {}
+
+  destroy() {
+    this.state = { code: NETWORKING_CLOSED };
+  }
+}
+
+// Networking status codes from @discordjs/voice
+const NETWORKING_READY = 4;
+const NETWORKING_CLOSED = 6;
+
+/**
+ * Stands in for the Discord gateway and voice server of one guild. Calls join
+ * through a real `VoiceConnection` and play through a real `AudioPlayer`; the
+ * gateway adapter answers join requests, the voice connection is made ready
+ * without any network, audio can be injected into the connection's
+ * `VoiceReceiver` as if users were speaking, and every packet the player sends
+ * is captured.
+ *
+ * `client` is a minimal discord.js client with the one guild, enough for `DiscordCall`.
+ * Its voice channels take text messages, which are recorded in `messages`.
+ */
+export class FakeVoiceGateway {
+  readonly guildId: string;
+  readonly botId: string;
+  readonly client: Client;
+  readonly codec: OpusCodec;
+  readonly payloads: GatewayPayload[] = []; // voice state updates the bot sent
+  readonly played: PlayedPacket[] = [];
+  readonly messages: SentMessage[] = []; // posted to the voice channels' text chat
+  // Answer joins with a ready connection; turn off to simulate an unreachable voice server
+  autoReady = true;
+
+  private methods: DiscordGatewayAdapterLibraryMethods | null = null;
+  private adapter: DiscordGatewayAdapterImplementerMethods | null = null;
+  private networking: FakeNetworking | null = null;
+  private botChannelId: string | null = null;
+
+  constructor(options: FakeGuildOptions = {}) {
+    this.codec = installOpusCodec();
+    this.guildId = options.guildId ?? '100000000000000001';
+    this.botId = options.botId ?? '200000000000000001';
+    this.client = fakeClient(this, options);
+  }
+
+  readonly adapterCreator: DiscordGatewayAdapterCreator = (methods) => {
+    this.methods = methods;
+    this.adapter = {
+      sendPayload: (payload: unknown) => this.onPayload(payload),
+      destroy: () => {
+        this.methods = null;
+        this.adapter = null;
+      },
+    };
+    return this.adapter;
+  };
+
+  get connection(): VoiceConnection | undefined {
+    return getVoiceConnection(this.guildId, this.botId);
+  }
+
+  // The channel the bot last asked to be in; null once it left
+  get channelId(): string | null {
+    return this.botChannelId;
+  }
+
+  // Simulates the voice WebSocket closing; 4014 means kicked or channel deleted, anything else is a drop
+  drop(closeCode: number = 4000) {
+    const networking = this.networking;
+    if (!networking) throw new Error('No voice connection to drop');
+    this.networking = null;
+    networking.emit('close', closeCode);
+  }
+
+  // Someone drags the bot into another channel
+  moveBot(channelId: string) {
+    this.botChannelId = channelId;
+    this.accept(channelId);
+  }
+
+  /**
+   * Plays PCM (48k stereo s16le) into the call as `userId`, one 20 ms packet every
+   * 20 ms like a Discord client would. Resolves once the last packet is sent.
+   */
+  async speak(userId: string, pcm: Buffer) {
+    const frames: Buffer[] = [];
+    for (let offset = 0; offset < pcm.length; offset += FRAME_BYTES) {
+      const frame = Buffer.alloc(FRAME_BYTES);
+      pcm.copy(frame, 0, offset, offset + FRAME_BYTES);
+      frames.push(this.codec.encode(frame));
+    }
+    await this.sendPackets(userId, frames);
+  }
+
+  // Plays already encoded Opus packets (20 ms each) into the call as `userId`
+  async sendPackets(userId: string, packets: Buffer[]) {
+    for (const packet of packets) {
+      const receiver = this.readyConnection().receiver;
+      // Marks the user as speaking (the call subscribes on the first packet), then delivers the packet
+      receiver.speaking.onPacket(userId);
+      receiver.subscriptions.get(userId)?.push(packet);
+      await sleep(20);
+    }
+  }
+
+  // Everything the audio player sent since the last `clearPlayed`, decoded to 48k stereo s16le
+  playedPcm(): Buffer {
+    return Buffer.concat(
+      this.played
+        .filter(({ packet }) => !packet.equals(OPUS_SILENCE_FRAME))
+        .map(({ packet }) => this.codec.decode(packet))
+    );
+  }
+
+  clearPlayed() {
+    this.played.length = 0;
+  }
+
+  private readyConnection(): VoiceConnection {
+    const connection = this.connection;
+    if (!connection || connection.state.status !== VoiceConnectionStatus.Ready) {
+      throw new Error('The bot is not connected to voice');
+    }
+    return connection;
+  }
+
+  private onPayload(payload: unknown): boolean {
+    if (!isGatewayPayload(payload)) return true;
+    this.payloads.push(payload);
+    if (payload.op !== GATEWAY_VOICE_STATE_UPDATE) return true;
+
+    this.botChannelId = payload.d.channel_id;
+    if (payload.d.channel_id && this.autoReady) {
+      const channelId = payload.d.channel_id;
+      // Discord answers asynchronously
+      setImmediate(() => this.accept(channelId));
+    }
+    return true;
+  }
+
+  // What Discord does after a join: a voice state update for the bot, then a session on the voice server
+  private accept(channelId: string) {
+    const connection = this.connection;
+    const adapter = this.adapter;
+    if (!this.methods || !adapter || !connection || connection.state.status === VoiceConnectionStatus.Destroyed) return;
+    if (this.botChannelId !== channelId) return;
+
+    const voiceState: VoiceStateData = {
+      guild_id: this.guildId,
+      channel_id: channelId,
+      user_id: this.botId,
+      session_id: 'fake-session',
+      deaf: false,
+      mute: false,
+      self_deaf: connection.joinConfig.selfDeaf,
+      self_mute: connection.joinConfig.selfMute,
+      self_video: false,
+      suppress: false,
+      request_to_speak_timestamp: null,
+    };
+    this.methods.onVoiceStateUpdate(voiceState);
+
+    const networking = new FakeNetworking((packet) => this.played.push({ at: Date.now(), packet }));
+    // Wired the way VoiceConnection wires its own networking, so a close is handled the same
+    networking.once('close', Reflect.get(connection, 'onNetworkingClose'));
+    this.networking = networking;
+
+    // The library's Networking class can't be built without sockets; the fake has every member it uses
+    const state = { adapter, subscription: connection.state.subscription, networking: networking as unknown as VoiceConnectionReadyState['networking'] };
+    connection.state = { ...state, status: VoiceConnectionStatus.Connecting };
+    connection.state = { ...state, status: VoiceConnectionStatus.Ready };
+  }
+}
+
+const GATEWAY_VOICE_STATE_UPDATE = 4;
+
+function isGatewayPayload(value: unknown): value is GatewayPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const { op, d } = value as Record<string, unknown>;
+  return typeof op === 'number' && typeof d === 'object' && d !== null;
+}
+
+function fakeClient(gateway: FakeVoiceGateway, options: FakeGuildOptions): Client {
+  const botName = options.botName ?? 'Assistant';
+  const members = new Map(Object.entries(options.members ?? {}).map(([id, displayName]) => [id, { id, displayName, user: { id, bot: false } }]));
+  const channels = new Map((options.channelIds ?? ['300000000000000001']).map((id) => [id, {
+    id,
+    name: `voice-${id.slice(-4)}`,
+    guildId: gateway.guildId,
+    isVoiceBased: () => true,
+    isTextBased: () => true,
+    send: async (message: Omit<SentMessage, 'channelId'>) => {
+      gateway.messages.push({ channelId: id, ...message });
+    },
+    members: new Map(),
+  }]));
+
+  const guild = {
+    id: gateway.guildId,
+    name: 'Test Guild',
+    voiceAdapterCreator: gateway.adapterCreator,
+    channels: {
+      cache: channels,
+      fetch: async (id: string) => channels.get(id) ?? null,
+    },
+    members: {
+      me: { id: gateway.botId, displayName: botName },
+      cache: members,
+      fetch: async (id: string) => {
+        const member = members.get(id);
+        if (!member) throw new Error(`Unknown member ${id}`);
+        return member;
+      },
+    },
+  };
+
+  const client = {
+    user: { id: gateway.botId, username: botName, tag: `${botName}#0001` },
+    isReady: () => true,
+    channels: { cache: channels },
+    guilds: {
+      cache: new Map([[gateway.guildId, guild]]),
+      fetch: async (id: string) => {
+        if (id !== gateway.guildId) throw new Error(`Unknown guild ${id}`);
+        return guild;
+      },
+    },
+  };
+  return client as unknown as Client;
+}
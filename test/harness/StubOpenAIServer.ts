@@ -0,0 +1,128 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { AddressInfo } from 'net';
+import { speechWav } from './fixtures.js';
+
+export type StubEndpoint = 'transcriptions' | 'chat' | 'speech' | 'moderations';
+
+export interface StubRequest {
+  endpoint: StubEndpoint;
+  receivedAt: number;
+  body: Buffer;
+  json?: any; // chat, speech and moderation requests
+}
+
+export type StubTranscript = string | { text: string; language: string };
+
+export interface StubHandlers {
+  // Transcript text, or text and detected language (returned when the request asks for verbose_json)
+  transcribe?: (request: StubRequest) => StubTranscript | Promise<StubTranscript>;
+  chat?: (request: StubRequest) => string | Promise<string>; // reply text; streamed word by word when asked to
+  speechMs?: (text: string) => number; // length of the synthesized tone
+  moderate?: (text: string) => string[]; // categories the text is flagged for; none by default
+}
+
+/**
+ * A local stand-in for the OpenAI transcription, chat, speech and moderation endpoints. Point
+ * `openai_base_url` at `url`. Requests are recorded; replies come from the handlers
+ * (by default: "hello", "Hello there, how can I help?", 400 ms of speech), and
+ * `fail()` makes the next requests to an endpoint return an HTTP error.
+ */
+export class StubOpenAIServer {
+  readonly requests: StubRequest[] = [];
+  private server: Server;
+  private failures: Map<StubEndpoint, number[]> = new Map();
+  private handlers: StubHandlers;
+
+  constructor(handlers: StubHandlers = {}) {
+    this.handlers = handlers;
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        res.writeHead(500).end(String(error instanceof Error ? error.message : error));
+      });
+    });
+  }
+
+  get url(): string {
+    const address = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}/v1`;
+  }
+
+  async start(): Promise<this> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return this;
+  }
+
+  async close() {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  setHandlers(handlers: StubHandlers) {
+    this.handlers = { ...this.handlers, ...handlers };
+  }
+
+  fail(endpoint: StubEndpoint, status: number, times: number = 1) {
+    this.failures.set(endpoint, [...(this.failures.get(endpoint) ?? []), ...Array(times).fill(status)]);
+  }
+
+  requestsTo(endpoint: StubEndpoint): StubRequest[] {
+    return this.requests.filter((request) => request.endpoint === endpoint);
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const endpoint = ENDPOINTS[(req.url ?? '').replace(/^\/v1/, '')];
+    if (req.method !== 'POST' || !endpoint) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = Buffer.concat(chunks);
+    const request: StubRequest = { endpoint, receivedAt: Date.now(), body };
+    if (endpoint !== 'transcriptions') request.json = JSON.parse(body.toString('utf8'));
+    this.requests.push(request);
+
+    const status = this.failures.get(endpoint)?.shift();
+    if (status) {
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: { message: 'stub failure' } }));
+      return;
+    }
+
+    if (endpoint === 'transcriptions') {
+      const result = await (this.handlers.transcribe?.(request) ?? 'hello');
+      const { text, language } = typeof result === 'string' ? { text: result, language: 'english' } : result;
+      const verbose = request.body.includes('verbose_json');
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(verbose ? { text, language } : { text }));
+    } else if (endpoint === 'chat') {
+      const reply = await (this.handlers.chat?.(request) ?? 'Hello there, how can I help?');
+      const usage = { prompt_tokens: 10, completion_tokens: reply.split(/\s+/).length };
+      if (request.json.stream) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        for (const word of reply.match(/\S+\s*/g) ?? []) {
+          res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: word } }] })}\n\n`);
+        }
+        res.write(`data: ${JSON.stringify({ choices: [], usage })}\n\n`);
+        res.end('data: [DONE]\n\n');
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+          .end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: reply } }], usage }));
+      }
+    } else if (endpoint === 'moderations') {
+      const flagged = this.handlers.moderate?.(request.json.input) ?? [];
+      const categories = Object.fromEntries(flagged.map((category) => [category, true]));
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify({ results: [{ flagged: flagged.length > 0, categories }] }));
+    } else {
+      const ms = this.handlers.speechMs?.(request.json.input) ?? 400;
+      res.writeHead(200, { 'Content-Type': 'audio/wav' }).end(speechWav(ms));
+    }
+  }
+}
+
+const ENDPOINTS: Record<string, StubEndpoint> = {
+  '/audio/transcriptions': 'transcriptions',
+  '/chat/completions': 'chat',
+  '/audio/speech': 'speech',
+  '/moderations': 'moderations',
+};
@@ -0,0 +1,71 @@
+import { DiscordCall, DiscordCallOptions } from '../../src/DiscordCall.js';
+import { VoiceMetrics } from '../../src/Metrics.js';
+import { FakeGuildOptions, FakeVoiceGateway } from './FakeVoiceGateway.js';
+import { StubHandlers, StubOpenAIServer } from './StubOpenAIServer.js';
+import { testContext, waitFor } from './fixtures.js';
+
+export interface TestCall {
+  call: DiscordCall;
+  gateway: FakeVoiceGateway;
+  stub: StubOpenAIServer;
+  metrics: VoiceMetrics;
+  context: ReturnType<typeof testContext>;
+  config: Record<string, any>; // what the call reads; edit it, then reload
+  // Ends the call and stops the stub server
+  close(): Promise<void>;
+}
+
+export interface TestCallOptions {
+  config?: Record<string, any>; // merged over the test defaults
+  guild?: FakeGuildOptions;
+  handlers?: StubHandlers;
+  callOptions?: DiscordCallOptions;
+}
+
+/**
+ * A `DiscordCall` on a fake gateway, talking to a stub OpenAI server, connected and
+ * ready. The defaults favour fast, deterministic tests: energy VAD, short silence
+ * and retry timings, no tools and no summaries.
+ */
+export async function startTestCall(options: TestCallOptions = {}): Promise<TestCall> {
+  const stub = await new StubOpenAIServer(options.handlers).start();
+  const gateway = new FakeVoiceGateway(options.guild);
+  const metrics = new VoiceMetrics();
+  const config: Record<string, any> = {
+    openai_base_url: stub.url,
+    openai_api_key: 'test-key',
+    vad_mode: 'energy',
+    speech_energy_threshold: 0.02,
+    speech_min_utterance_ms: 100,
+    speech_silence_ms: 300,
+    speech_preroll_ms: 100,
+    tools_enabled: false,
+    memory_summaries: false,
+    reconnect_max_attempts: 3,
+    reconnect_base_delay_ms: 20,
+    reconnect_max_delay_ms: 100,
+    reconnect_timeout_ms: 300,
+    ...options.config,
+  };
+  const context = testContext(config);
+
+  const channelId = options.guild?.channelIds?.[0] ?? '300000000000000001';
+  const call = new DiscordCall(gateway.client, { guildId: gateway.guildId, channelId }, context, {
+    metrics,
+    ...options.callOptions,
+  });
+  await waitFor(() => call.status === 'connected', 'the call to connect');
+
+  return {
+    call,
+    gateway,
+    stub,
+    metrics,
+    context,
+    config,
+    async close() {
+      if (call.status !== 'disconnected') await call.end();
+      await stub.close();
+    },
+  };
+}
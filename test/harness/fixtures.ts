@@ -0,0 +1,107 @@
+import { encodeS16le, encodeWav } from '../../src/AudioConversion.js';
+import { PluginContext } from '../../src/types.js';
+
+// 20 ms of 48k stereo s16le: one Discord voice frame
+export const FRAME_BYTES = 3840;
+export const PCM_BYTES_PER_MS = 48000 * 2 * 2 / 1000;
+
+// A sine tone as 48k stereo s16le; loud enough for the energy VAD at the default amplitude
+export function tone(ms: number, options: { frequency?: number; amplitude?: number } = {}): Buffer {
+  const frequency = options.frequency ?? 220;
+  const amplitude = options.amplitude ?? 0.3;
+  const samples = new Float32Array(Math.round(48 * ms));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / 48000);
+  }
+  return encodeS16le([samples, samples]);
+}
+
+export function silence(ms: number): Buffer {
+  return Buffer.alloc(Math.round(ms * PCM_BYTES_PER_MS));
+}
+
+// Reproducible white noise at `rms` (0-1), like hiss or a fan; the same seed gives the same noise
+export function noise(ms: number, rms: number, seed: number = 1): Buffer {
+  const amplitude = rms * Math.sqrt(3); // uniform noise in [-a, a] has an RMS of a / √3
+  const samples = new Float32Array(Math.round(48 * ms));
+  let state = seed;
+  for (let i = 0; i < samples.length; i++) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    samples[i] = amplitude * (state / 2 ** 31 - 1);
+  }
+  return encodeS16le([samples, samples]);
+}
+
+// Single-sample pops every `everyMs` on an otherwise silent line, like a bumped mic
+export function clicks(ms: number, everyMs: number, amplitude: number = 0.9): Buffer {
+  const samples = new Float32Array(Math.round(48 * ms));
+  for (let i = 0; i < samples.length; i += Math.round(48 * everyMs)) {
+    samples[i] = amplitude;
+  }
+  return encodeS16le([samples, samples]);
+}
+
+// Sums equally long 48k stereo s16le buffers, e.g. speech over background noise
+export function mixPcm(...buffers: Buffer[]): Buffer {
+  const length = Math.min(...buffers.map((buffer) => buffer.length));
+  const mixed = Buffer.alloc(length);
+  for (let i = 0; i + 1 < length; i += 2) {
+    const sum = buffers.reduce((total, buffer) => total + buffer.readInt16LE(i), 0);
+    mixed.writeInt16LE(Math.max(-32768, Math.min(32767, sum)), i);
+  }
+  return mixed;
+}
+
+// What a TTS endpoint would return: a 24 kHz mono WAV of a tone
+export function speechWav(ms: number): Buffer {
+  const samples = new Float32Array(Math.round(24 * ms));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = 0.3 * Math.sin((2 * Math.PI * 330 * i) / 24000);
+  }
+  return encodeWav({ samples: [samples], sampleRate: 24000 });
+}
+
+export function durationMs(pcm: Buffer): number {
+  return pcm.length / PCM_BYTES_PER_MS;
+}
+
+// Milliseconds of 48k stereo s16le whose 20 ms frames are louder than `threshold` (RMS, 0-1)
+export function audibleMs(pcm: Buffer, threshold: number = 0.01): number {
+  let frames = 0;
+  for (let offset = 0; offset + FRAME_BYTES <= pcm.length; offset += FRAME_BYTES) {
+    let sum = 0;
+    for (let i = offset; i < offset + FRAME_BYTES; i += 2) {
+      const sample = pcm.readInt16LE(i) / 32768;
+      sum += sample * sample;
+    }
+    if (Math.sqrt(sum / (FRAME_BYTES / 2)) > threshold) frames++;
+  }
+  return frames * 20;
+}
+
+// Plugin context over `config` and a logger that keeps what it was told
+export function testContext(config: Record<string, any> = {}): PluginContext & { logs: Array<{ level: string; msg: string }> } {
+  const logs: Array<{ level: string; msg: string }> = [];
+  const log = (level: string) => (msg: string) => {
+    logs.push({ level, msg });
+    if (process.env.TEST_LOG) console.log(`[${level}] ${msg}`);
+  };
+  return {
+    logs,
+    logger: { info: log('info'), warn: log('warn'), error: log('error'), debug: log('debug') },
+    config: { get: (key: string) => config[key], keys: () => Object.keys(config) },
+  };
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Polls until `condition` holds; fails with `description` after `timeoutMs`
+export async function waitFor(condition: () => boolean, description: string, timeoutMs: number = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${description}`);
+    await sleep(10);
+  }
+}
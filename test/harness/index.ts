@@ -0,0 +1,5 @@
+export * from './fixtures.js';
+export * from './opus.js';
+export * from './FakeVoiceGateway.js';
+export * from './StubOpenAIServer.js';
+export * from './calls.js';
@@ -0,0 +1,93 @@
+import Module from 'module';
+
+export interface OpusCodec {
+  name: string;
+  lossless: boolean;
+  encode(pcmFrame: Buffer): Buffer; // one 20 ms frame of 48k stereo s16le
+  decode(packet: Buffer): Buffer;
+}
+
+// The frame @discordjs/voice pads the end of playback with
+export const OPUS_SILENCE_FRAME = Buffer.from([0xf8, 0xff, 0xfe]);
+
+let installed: OpusCodec | null = null;
+
+/**
+ * The Opus codec the voice library will use. With `@discordjs/opus` or `opusscript`
+ * installed that is the real codec; otherwise a lossless stand-in whose "packets"
+ * are the PCM frames themselves is registered under `opusscript`, so audio can be
+ * received and played without any native module.
+ */
+export function installOpusCodec(): OpusCodec {
+  if (installed) return installed;
+  installed = loadRealCodec() ?? installPassthroughCodec();
+  return installed;
+}
+
+function loadRealCodec(): OpusCodec | null {
+  try {
+    const { OpusEncoder } = require('@discordjs/opus');
+    const codec = new OpusEncoder(48000, 2);
+    return {
+      name: '@discordjs/opus',
+      lossless: false,
+      encode: (frame) => codec.encode(frame),
+      decode: (packet) => codec.decode(packet),
+    };
+  } catch {
+    // Not installed
+  }
+  try {
+    const OpusScript = require('opusscript');
+    const codec = new OpusScript(48000, 2, OpusScript.Application.AUDIO);
+    return {
+      name: 'opusscript',
+      lossless: false,
+      encode: (frame) => Buffer.from(codec.encode(frame, 960)),
+      decode: (packet) => Buffer.from(codec.decode(packet)),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Same shape as opusscript, which is what prism-media looks for last
+class PassthroughOpus {
+  static Application = { VOIP: 2048, AUDIO: 2049, RESTRICTED_LOWDELAY: 2051 };
+
+  constructor(_rate: number, _channels: number, _application?: number) {}
+
+  encode(pcm: Buffer, _frameSize?: number): Buffer {
+    return Buffer.from(pcm);
+  }
+
+  decode(packet: Buffer): Buffer {
+    return Buffer.from(packet);
+  }
+
+  encoderCTL(_ctl: number, _value: number) {}
+
+  delete() {}
+}
+
+function installPassthroughCodec(): OpusCodec {
+  const resolvable = Module as unknown as {
+    _resolveFilename(request: string, ...rest: unknown[]): string;
+  };
+  const resolveFilename = resolvable._resolveFilename;
+  const id = `${__filename}#passthrough-opus`;
+  resolvable._resolveFilename = function (request: string, ...rest: unknown[]) {
+    return request === 'opusscript' ? id : resolveFilename.call(this, request, ...rest);
+  };
+  const stub = new Module(id);
+  stub.exports = PassthroughOpus;
+  stub.loaded = true;
+  require.cache[id] = stub;
+
+  return {
+    name: 'passthrough',
+    lossless: true,
+    encode: (frame) => Buffer.from(frame),
+    decode: (packet) => Buffer.from(packet),
+  };
+}